@@ -0,0 +1,116 @@
+import * as vscode from "vscode";
+import { GitClient, GitOperationResult } from "./gitClient";
+import { readOperationInProgress } from "./preflight";
+
+/** Prefix of the messages of stashes made by auto-stash, so leftovers are easy to find in `git stash list`. */
+export const AUTO_STASH_TAG = "multi-repo-git autostash";
+
+export function isAutoStashEnabled(): boolean {
+  return vscode.workspace
+    .getConfiguration("multiRepoGit")
+    .get<boolean>("autoStash", false);
+}
+
+export function autoStashMessage(operation: string, date = new Date()): string {
+  return `${AUTO_STASH_TAG}: ${operation} (${date.toISOString()})`;
+}
+
+/** `stash@{n}` of the stash whose commit is `sha`, from `git stash list --format=%H` output. */
+export function findStashRef(stashList: string, sha: string): string | undefined {
+  const index = stashList.split("\n").map((line) => line.trim()).indexOf(sha);
+  return index < 0 ? undefined : `stash@{${index}}`;
+}
+
+/**
+ * Runs `operation` with uncommitted work (untracked files included) stashed
+ * under a tagged message, then re-applies it (staged changes staged again
+ * where they still apply) and drops the stash. When the
+ * re-apply conflicts, the stash is kept and the result names the conflicted
+ * files and the stash to drop once they are resolved. Nothing is re-applied
+ * while the operation left a rebase or merge to finish. Git failures around
+ * the stash come back as an unsuccessful result rather than a rejection.
+ */
+export async function withAutoStash(
+  client: GitClient,
+  repoPath: string,
+  operationName: string,
+  operation: () => Promise<GitOperationResult>,
+): Promise<GitOperationResult> {
+  const git = (args: string[]) => client.run(repoPath, "stash", (g) => g.raw(args));
+
+  const stashList = () => git(["stash", "list", "--format=%H"]);
+  const newestStash = (list: string) => list.split("\n")[0].trim();
+
+  const message = autoStashMessage(operationName);
+  let sha = "";
+  try {
+    if ((await git(["status", "--porcelain"])).trim() !== "") {
+      const before = newestStash(await stashList());
+      await git(["stash", "push", "--include-untracked", "-m", message]);
+      const after = newestStash(await stashList());
+      // `stash push` saves nothing, yet succeeds, when only submodules have changes
+      sha = after !== before ? after : "";
+    }
+  } catch (e: any) {
+    return { success: false, message: `${operationName} not run: auto-stash failed`, error: e.message || String(e) };
+  }
+  if (!sha) {
+    return operation();
+  }
+
+  const result = await operation();
+  const stashRef = async () => findStashRef(await stashList().catch(() => ""), sha) ?? sha.slice(0, 8);
+
+  const inProgress = await readOperationInProgress(client, repoPath).catch(() => undefined);
+  if (inProgress) {
+    return {
+      ...result,
+      success: false,
+      error: `${result.error ? `${result.error}\n` : ""}Finish or abort the ${inProgress}, then run \`git stash pop ${await stashRef()}\` to get your uncommitted changes back ("${message}").`,
+    };
+  }
+
+  const conflicted = async () => (await git(["diff", "--name-only", "--diff-filter=U"])).split("\n").filter(Boolean);
+  let conflicts: string[];
+  try {
+    try {
+      await git(["stash", "apply", "--index", sha]);
+    } catch {
+      // Conflicts in the working tree fail the apply too; otherwise the staged
+      // changes could not be restored as such and come back unstaged
+      if ((await conflicted()).length === 0) {
+        await git(["stash", "apply", sha]);
+      }
+    }
+    conflicts = await conflicted();
+  } catch (e: any) {
+    return {
+      success: false,
+      message: `${result.message}; re-applying stashed changes failed`,
+      error: `${result.error ? `${result.error}\n` : ""}${e.message || e}. Your changes are kept in ${await stashRef()} ("${message}").`,
+    };
+  }
+
+  if (conflicts.length > 0) {
+    return {
+      success: false,
+      message: `${result.message}; re-applying stashed changes conflicted`,
+      error: `${result.error ? `${result.error}\n` : ""}Conflicts in ${conflicts.join(", ")}. Resolve them, then drop ${await stashRef()} ("${message}").`,
+    };
+  }
+  const ref = findStashRef(await stashList().catch(() => ""), sha);
+  if (ref) {
+    try {
+      await git(["stash", "drop", ref]);
+    } catch (e: any) {
+      return {
+        success: false,
+        message: `${result.message}; dropping the auto-stash failed`,
+        error: `${result.error ? `${result.error}\n` : ""}${e.message || e}. Your changes were re-applied; drop ${ref} ("${message}") yourself.`,
+      };
+    }
+  }
+  return result.success
+    ? { ...result, message: `${result.message} (uncommitted changes re-applied)` }
+    : result;
+}
@@ -0,0 +1,178 @@
+import { StatusResult } from "simple-git";
+import { RepoInfo } from "./extension";
+import { GitClient, GitOperationResult } from "./gitClient";
+import { BOOKKEEPING_IDENTITY, commitUntracked } from "./undoHistory";
+
+/** Backups of one operation share the id after this prefix, e.g. `refs/multirepo/backup/20261019T093000123`. */
+export const BACKUP_REF_PREFIX = "refs/multirepo/backup/";
+
+const BACKUP_SUBJECT = "multi-repo-git backup: ";
+
+/** Uncommitted changes a Discard would destroy in one repository. */
+export interface DiscardPreview {
+  repo: RepoInfo;
+  /** Staged, modified, deleted and conflicted tracked files. */
+  changed: string[];
+  untracked: string[];
+}
+
+/** Backups taken in several repositories by the same operation. */
+export interface BackupSet {
+  id: string;
+  operation: string;
+  createdAt?: Date;
+  repos: { repo: RepoInfo; commit: string }[];
+}
+
+let lastBackupId = "";
+let repeatedBackupIds = 0;
+
+/**
+ * Backup id for an operation started at `date`, to the millisecond; sorts
+ * chronologically. Ids repeated within one millisecond get a `-<n>` suffix.
+ */
+export function backupId(date: Date): string {
+  const id = date.toISOString().replace(/[-:.]/g, "").replace(/Z$/, "");
+  if (id === lastBackupId) {
+    return `${id}-${++repeatedBackupIds}`;
+  }
+  lastBackupId = id;
+  repeatedBackupIds = 0;
+  return id;
+}
+
+// Ids from before milliseconds were kept have none
+function parseBackupId(id: string): Date | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(\d{3})?/.exec(id);
+  return match
+    ? new Date(`${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}.${match[7] ?? "000"}Z`)
+    : undefined;
+}
+
+export function discardPreview(repo: RepoInfo, status: Pick<StatusResult, "files">): DiscardPreview {
+  const changed: string[] = [];
+  const untracked: string[] = [];
+  for (const file of status.files) {
+    (file.index === "?" && file.working_dir === "?" ? untracked : changed).push(file.path);
+  }
+  return { repo, changed, untracked };
+}
+
+/**
+ * One line per repository with changes, e.g. "api: 2 changed, 1 untracked
+ * (src/a.ts, b.ts, notes.md)", listing at most `maxRepos` repositories.
+ */
+export function formatDiscardPreview(previews: DiscardPreview[], { maxFiles = 3, maxRepos = 10 } = {}): string {
+  const dirty = previews.filter((preview) => preview.changed.length + preview.untracked.length > 0);
+  const lines = dirty
+    .slice(0, maxRepos)
+    .map((preview) => {
+      const counts: string[] = [];
+      if (preview.changed.length > 0) {
+        counts.push(`${preview.changed.length} changed`);
+      }
+      if (preview.untracked.length > 0) {
+        counts.push(`${preview.untracked.length} untracked`);
+      }
+      const files = [...preview.changed, ...preview.untracked];
+      const shown = files.slice(0, maxFiles).join(", ") + (files.length > maxFiles ? `, +${files.length - maxFiles} more` : "");
+      return `${preview.repo.name}: ${counts.join(", ")} (${shown})`;
+    });
+  if (dirty.length > maxRepos) {
+    lines.push(`…and ${dirty.length - maxRepos} more repos`);
+  }
+  return lines.join("\n");
+}
+
+export async function getDiscardPreview(client: GitClient, repo: RepoInfo): Promise<DiscardPreview> {
+  const status = await client.run(repo.path, "status", (git) => git.status(["--untracked-files=all"]), { record: false });
+  return discardPreview(repo, status);
+}
+
+/**
+ * Saves staged, unstaged and untracked changes as a stash-shaped commit
+ * (parents HEAD, index and untracked files, like `git stash -u`) pinned by
+ * `BACKUP_REF_PREFIX + id`, without touching the working tree. Returns
+ * `undefined` when there is nothing to back up; throws rather than replace
+ * an existing backup with the same id.
+ */
+export async function createBackup(
+  client: GitClient,
+  repoPath: string,
+  id: string,
+  operation: string,
+): Promise<string | undefined> {
+  const git = (args: string[]) =>
+    client
+      .run(repoPath, "backup", (g) => g.env({ ...process.env, ...BOOKKEEPING_IDENTITY }).raw(args), { record: false })
+      .then((out) => out.trim());
+
+  const head = await client.head(repoPath);
+  if (!head) {
+    return undefined;
+  }
+  const untracked = (await git(["ls-files", "--others", "--exclude-standard", "-z"])).split("\0").filter(Boolean);
+  const stash = await git(["stash", "create"]);
+  if (!stash && untracked.length === 0) {
+    return undefined;
+  }
+
+  const message = `${BACKUP_SUBJECT}${operation}`;
+  const tree = await git(["rev-parse", `${stash || head}^{tree}`]);
+  const index = stash
+    ? await git(["rev-parse", `${stash}^2`])
+    : await git(["commit-tree", tree, "-p", head, "-m", `index on ${message}`]);
+  const parents = ["-p", head, "-p", index];
+  if (untracked.length > 0) {
+    parents.push("-p", await commitUntracked(client, repoPath, untracked));
+  }
+  const backup = await git(["commit-tree", tree, ...parents, "-m", message]);
+  // An empty old value makes git refuse when the ref already exists
+  await git(["update-ref", `${BACKUP_REF_PREFIX}${id}`, backup, ""]);
+  return backup;
+}
+
+/** Backups of every repository, grouped by operation, newest first. */
+export async function listBackups(client: GitClient, repos: RepoInfo[]): Promise<BackupSet[]> {
+  const sets = new Map<string, BackupSet>();
+  for (const repo of repos) {
+    let refs: string;
+    try {
+      refs = await client.run(
+        repo.path,
+        "query",
+        (git) => git.raw(["for-each-ref", "--format=%(refname)%09%(objectname)%09%(subject)", BACKUP_REF_PREFIX]),
+        { record: false },
+      );
+    } catch {
+      continue;
+    }
+    for (const line of refs.split("\n").filter(Boolean)) {
+      const [ref, commit, subject = ""] = line.split("\t");
+      const id = ref.slice(BACKUP_REF_PREFIX.length);
+      let set = sets.get(id);
+      if (!set) {
+        set = {
+          id,
+          operation: subject.startsWith(BACKUP_SUBJECT) ? subject.slice(BACKUP_SUBJECT.length) : subject,
+          createdAt: parseBackupId(id),
+          repos: [],
+        };
+        sets.set(id, set);
+      }
+      set.repos.push({ repo, commit });
+    }
+  }
+  return [...sets.values()].sort((a, b) => b.id.localeCompare(a.id));
+}
+
+/** Re-applies a backup like `git stash apply --index` and drops its ref once applied. */
+export async function restoreBackup(client: GitClient, repoPath: string, id: string, commit: string): Promise<GitOperationResult> {
+  try {
+    await client.run(repoPath, "backup", (git) => git.raw(["stash", "apply", "--index", commit]));
+    await client.run(repoPath, "backup", (git) => git.raw(["update-ref", "-d", `${BACKUP_REF_PREFIX}${id}`]));
+    return { success: true, message: `Restored backup ${commit.slice(0, 8)}` };
+  } catch (e: any) {
+    return { success: false, message: "Restore backup failed", error: e.message || String(e) };
+  }
+}
@@ -0,0 +1,104 @@
+import * as vscode from "vscode";
+import { GitOperationResult, GitOutput } from "./gitClient";
+
+/**
+ * Collects the output of a single repository so that parallel operations
+ * can be written to the shared channel as one contiguous block.
+ */
+export class RepoOutputBuffer implements GitOutput {
+  private text = "";
+
+  append(value: string): void {
+    this.text += value;
+  }
+
+  appendLine(value: string): void {
+    this.text += `${value}\n`;
+  }
+
+  toString(): string {
+    return this.text;
+  }
+
+  flushTo(output: GitOutput): void {
+    if (this.text) {
+      output.append(this.text);
+    }
+    this.text = "";
+  }
+}
+
+export type RepoOperationState = "ok" | "failed" | "skipped";
+
+export interface RepoOperationResult extends GitOperationResult {
+  repo: string;
+  path: string;
+  state: RepoOperationState;
+  stdout: string;
+  stderr: string;
+  exitCode?: number;
+  durationMs: number;
+  headBefore?: string;
+  headAfter?: string;
+}
+
+export interface BulkOperationResult {
+  operation: string;
+  startedAt: string;
+  durationMs: number;
+  cancelled: boolean;
+  successCount: number;
+  failureCount: number;
+  skippedCount: number;
+  repos: RepoOperationResult[];
+}
+
+export function summarizeResults(
+  operation: string,
+  startedAt: number,
+  cancelled: boolean,
+  repos: RepoOperationResult[],
+): BulkOperationResult {
+  return {
+    operation,
+    startedAt: new Date(startedAt).toISOString(),
+    durationMs: Date.now() - startedAt,
+    cancelled,
+    successCount: repos.filter((r) => r.state === "ok").length,
+    failureCount: repos.filter((r) => r.state === "failed").length,
+    skippedCount: repos.filter((r) => r.state === "skipped").length,
+    repos,
+  };
+}
+
+export function getConcurrency(): number {
+  const config = vscode.workspace.getConfiguration("multiRepoGit");
+  const value = config.get<number>("concurrency", 4);
+  return Math.max(1, Math.floor(value));
+}
+
+/**
+ * Runs `worker` over `items` with at most `limit` invocations in flight.
+ * Once the token is cancelled no new items are started; running ones finish.
+ */
+export async function runWithConcurrency<T>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  token?: vscode.CancellationToken,
+): Promise<void> {
+  let next = 0;
+  const runners = Array.from(
+    { length: Math.min(Math.max(1, limit), items.length) },
+    async () => {
+      while (next < items.length) {
+        if (token?.isCancellationRequested) {
+          return;
+        }
+        const index = next++;
+        await worker(items[index], index);
+      }
+    },
+  );
+  await Promise.all(runners);
+}
@@ -0,0 +1,160 @@
+import * as os from "node:os";
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import { StatusResult } from "simple-git";
+import { GitClient } from "./gitClient";
+import { unstagePaths } from "./commits";
+
+/** Which side of the index a change is on, as in the Source Control view. */
+export type ReviewSection = "staged" | "unstaged";
+
+/** One changed file in one section; a partially staged file appears in both. */
+export interface ReviewFile {
+  path: string;
+  /** Original path of a staged rename. */
+  from?: string;
+  section: ReviewSection;
+  /** Status letter: `M`, `A`, `D`, `R`, `?` (untracked) or `U` (conflicted). */
+  status: string;
+}
+
+export interface DiffHunk {
+  /** The `@@ -a,b +c,d @@ …` line. */
+  header: string;
+  oldStart: number;
+  newStart: number;
+  lines: string[];
+}
+
+/** `git diff` output for one file: the lines before the first hunk, then the hunks. */
+export interface FileDiff {
+  header: string[];
+  hunks: DiffHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+function isConflicted(file: StatusResult["files"][number]): boolean {
+  return file.index === "U" || file.working_dir === "U"
+    || (file.index === "A" && file.working_dir === "A")
+    || (file.index === "D" && file.working_dir === "D");
+}
+
+export function reviewFiles(status: Pick<StatusResult, "files">): ReviewFile[] {
+  const files: ReviewFile[] = [];
+  for (const file of status.files) {
+    if (isConflicted(file)) {
+      files.push({ path: file.path, section: "unstaged", status: "U" });
+      continue;
+    }
+    if (file.index === "?" && file.working_dir === "?") {
+      files.push({ path: file.path, section: "unstaged", status: "?" });
+      continue;
+    }
+    if (file.index !== " " && file.index !== "") {
+      files.push({
+        path: file.path,
+        from: file.from && file.from !== file.path ? file.from : undefined,
+        section: "staged",
+        status: file.index,
+      });
+    }
+    if (file.working_dir !== " " && file.working_dir !== "") {
+      files.push({ path: file.path, section: "unstaged", status: file.working_dir });
+    }
+  }
+  return files;
+}
+
+/** Parses `git diff` output for a single file; `undefined` when there is no textual diff. */
+export function parseFileDiff(text: string): FileDiff | undefined {
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  const header: string[] = [];
+  const hunks: DiffHunk[] = [];
+  for (const line of lines) {
+    const match = HUNK_HEADER.exec(line);
+    if (match) {
+      hunks.push({ header: line, oldStart: Number(match[1]), newStart: Number(match[2]), lines: [] });
+    } else if (hunks.length > 0) {
+      hunks[hunks.length - 1].lines.push(line);
+    } else {
+      header.push(line);
+    }
+  }
+  return hunks.length > 0 ? { header, hunks } : undefined;
+}
+
+/** A patch containing only `hunk`, for `git apply`. */
+export function hunkPatch(diff: FileDiff, hunk: DiffHunk): string {
+  return [...diff.header, hunk.header, ...hunk.lines].join("\n") + "\n";
+}
+
+/** First added or removed line of a hunk, to label it. */
+export function describeHunk(hunk: DiffHunk): string {
+  const changed = hunk.lines.find((line) => line.startsWith("+") || line.startsWith("-"));
+  return changed ? changed.slice(0, 1) + " " + changed.slice(1).trim() : "";
+}
+
+export async function readReviewFiles(client: GitClient, repoPath: string): Promise<ReviewFile[]> {
+  const status = await client.run(repoPath, "status", (git) => git.status(["--untracked-files=all"]), { record: false });
+  return reviewFiles(status);
+}
+
+/** The diff of `file` in its section; untracked and conflicted files have none. */
+export async function readFileDiff(client: GitClient, repoPath: string, file: ReviewFile): Promise<FileDiff | undefined> {
+  if (file.status === "?" || file.status === "U") {
+    return undefined;
+  }
+  const args = ["diff", "--no-color", "--no-ext-diff"];
+  if (file.section === "staged") {
+    args.push("--cached", "-M", "--", ...(file.from ? [file.from, file.path] : [file.path]));
+  } else {
+    args.push("--", file.path);
+  }
+  const text = await client.run(repoPath, "query", (git) => git.raw(args), { record: false });
+  return parseFileDiff(text);
+}
+
+let temporaryPatches = 0;
+
+/** `git apply <args>` with `patch` passed through a temporary file. */
+async function applyPatch(client: GitClient, repoPath: string, operation: string, patch: string, args: string[]): Promise<void> {
+  const file = path.join(os.tmpdir(), `multi-repo-git-hunk-${process.pid}-${++temporaryPatches}.patch`);
+  try {
+    await fs.writeFile(file, patch);
+    await client.run(repoPath, operation, (git) => git.raw(["apply", ...args, file]));
+  } finally {
+    await fs.rm(file, { force: true });
+  }
+}
+
+export async function stageFile(client: GitClient, repoPath: string, file: ReviewFile): Promise<void> {
+  await client.run(repoPath, "stage", (git) => git.raw(["add", "-A", "--", file.path]));
+}
+
+export async function unstageFile(client: GitClient, repoPath: string, file: ReviewFile): Promise<void> {
+  await unstagePaths(client, repoPath, file.from ? [file.from, file.path] : [file.path]);
+}
+
+/** Restores the working tree copy from the index; untracked files are deleted. */
+export async function discardFile(client: GitClient, repoPath: string, file: ReviewFile): Promise<void> {
+  const args = file.status === "?" ? ["clean", "-f", "-q", "--", file.path] : ["checkout", "-q", "--", file.path];
+  await client.run(repoPath, "discard", (git) => git.raw(args));
+}
+
+export function stageHunk(client: GitClient, repoPath: string, diff: FileDiff, hunk: DiffHunk): Promise<void> {
+  return applyPatch(client, repoPath, "stage", hunkPatch(diff, hunk), ["--cached"]);
+}
+
+/** `diff` must come from the staged section. */
+export function unstageHunk(client: GitClient, repoPath: string, diff: FileDiff, hunk: DiffHunk): Promise<void> {
+  return applyPatch(client, repoPath, "unstage", hunkPatch(diff, hunk), ["--cached", "-R"]);
+}
+
+/** `diff` must come from the unstaged section. */
+export function discardHunk(client: GitClient, repoPath: string, diff: FileDiff, hunk: DiffHunk): Promise<void> {
+  return applyPatch(client, repoPath, "discard", hunkPatch(diff, hunk), ["-R"]);
+}
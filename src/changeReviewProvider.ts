@@ -0,0 +1,236 @@
+import * as vscode from "vscode";
+import * as path from "node:path";
+import { RepoInfo } from "./extension";
+import { GitClient } from "./gitClient";
+import { RepoStatusStore, isDirty } from "./repoStatus";
+import { getConcurrency, runWithConcurrency } from "./bulkOperation";
+import {
+  DiffHunk,
+  FileDiff,
+  ReviewFile,
+  ReviewSection,
+  describeHunk,
+  discardFile,
+  discardHunk,
+  readFileDiff,
+  readReviewFiles,
+  stageFile,
+  stageHunk,
+  unstageFile,
+  unstageHunk,
+} from "./changeReview";
+
+/** URI scheme of the index and HEAD versions shown in diff editors. */
+export const REVIEW_SCHEME = "multi-repo-git-review";
+
+/** `ref` is `HEAD`, `""` for the index, or `undefined` for an empty document. */
+function reviewUri(repoPath: string, filePath: string, ref: string | undefined): vscode.Uri {
+  return vscode.Uri.file(path.join(repoPath, filePath)).with({
+    scheme: REVIEW_SCHEME,
+    query: JSON.stringify({ repo: repoPath, path: filePath, ref }),
+  });
+}
+
+export class ReviewRepoItem extends vscode.TreeItem {
+  constructor(readonly repo: RepoInfo, readonly files: ReviewFile[]) {
+    super(repo.name, vscode.TreeItemCollapsibleState.Expanded);
+    this.id = `review:${repo.path}`;
+    this.contextValue = "reviewRepository";
+    this.description = `${files.length} change${files.length === 1 ? "" : "s"}`;
+    this.tooltip = repo.path;
+    this.iconPath = new vscode.ThemeIcon("repo");
+  }
+}
+
+export class ReviewSectionItem extends vscode.TreeItem {
+  constructor(readonly repo: RepoInfo, readonly section: ReviewSection, readonly files: ReviewFile[]) {
+    super(section === "staged" ? "Staged Changes" : "Changes", vscode.TreeItemCollapsibleState.Expanded);
+    this.id = `review:${repo.path}:${section}`;
+    this.contextValue = `review.${section}Section`;
+    this.description = String(files.length);
+  }
+}
+
+export class ReviewFileItem extends vscode.TreeItem {
+  constructor(readonly repo: RepoInfo, readonly file: ReviewFile) {
+    const hasHunks = file.status !== "?" && file.status !== "U";
+    super(
+      path.basename(file.path),
+      hasHunks ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+    );
+    this.id = `review:${repo.path}:${file.section}:${file.path}`;
+    this.resourceUri = vscode.Uri.file(path.join(repo.path, file.path));
+    this.contextValue = file.status === "?" ? "review.untracked" : file.status === "U" ? "review.conflicted" : `review.${file.section}`;
+    const directory = path.dirname(file.path);
+    this.description = [file.status, directory === "." ? "" : directory, file.from ? `← ${file.from}` : ""]
+      .filter(Boolean)
+      .join(" ");
+    this.tooltip = `${file.path} · ${file.section === "staged" ? "staged" : file.status === "?" ? "untracked" : "not staged"}`;
+    this.command = { command: "multi-repo-git-commands.openReviewDiff", title: "Open Changes", arguments: [this] };
+  }
+}
+
+export class ReviewHunkItem extends vscode.TreeItem {
+  constructor(
+    readonly repo: RepoInfo,
+    readonly file: ReviewFile,
+    readonly diff: FileDiff,
+    readonly hunk: DiffHunk,
+  ) {
+    super(hunk.header.replace(/^(@@[^@]*@@).*$/, "$1"), vscode.TreeItemCollapsibleState.None);
+    this.id = `review:${repo.path}:${file.section}:${file.path}:${hunk.header}`;
+    this.contextValue = `review.${file.section}Hunk`;
+    this.description = describeHunk(hunk);
+    this.tooltip = [hunk.header, ...hunk.lines.slice(0, 20)].join("\n");
+    this.command = { command: "multi-repo-git-commands.openReviewDiff", title: "Open Changes", arguments: [this] };
+  }
+}
+
+type ReviewNode = ReviewRepoItem | ReviewSectionItem | ReviewFileItem | ReviewHunkItem;
+
+/**
+ * "Review Changes" view: every uncommitted change of the repositories in
+ * scope, grouped by repository and staged/unstaged like the Source Control
+ * view, down to single hunks. Also serves the index and HEAD side of the
+ * diff editors it opens.
+ */
+export class ChangeReviewProvider
+  implements vscode.TreeDataProvider<ReviewNode>, vscode.TextDocumentContentProvider, vscode.Disposable
+{
+  public static readonly viewType = "multi-repo-git-review";
+
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<ReviewNode | undefined>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this._onDidChange.event;
+
+  private readonly storeListener: vscode.Disposable;
+
+  constructor(
+    private readonly client: GitClient,
+    private readonly store: RepoStatusStore,
+    private readonly getRepos: () => Promise<RepoInfo[]>,
+  ) {
+    this.storeListener = store.onDidChange(() => this.update());
+  }
+
+  /** Redraws the tree and reloads open index/HEAD documents. */
+  update(): void {
+    this._onDidChangeTreeData.fire(undefined);
+    for (const document of vscode.workspace.textDocuments) {
+      if (document.uri.scheme === REVIEW_SCHEME) {
+        this._onDidChange.fire(document.uri);
+      }
+    }
+  }
+
+  getTreeItem(element: ReviewNode): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: ReviewNode): Promise<ReviewNode[]> {
+    if (!element) {
+      const statuses = await this.store.getAll(await this.getRepos());
+      const dirty = statuses.filter((status) => !status.error && isDirty(status)).map((status) => status.repo);
+      const items: (ReviewRepoItem | undefined)[] = new Array(dirty.length);
+      await runWithConcurrency(dirty, getConcurrency(), async (repo, index) => {
+        const files = await readReviewFiles(this.client, repo.path).catch(() => []);
+        items[index] = files.length > 0 ? new ReviewRepoItem(repo, files) : undefined;
+      });
+      return items.filter((item): item is ReviewRepoItem => item !== undefined);
+    }
+    if (element instanceof ReviewRepoItem) {
+      return (["staged", "unstaged"] as const)
+        .map((section) => new ReviewSectionItem(element.repo, section, element.files.filter((file) => file.section === section)))
+        .filter((section) => section.files.length > 0);
+    }
+    if (element instanceof ReviewSectionItem) {
+      return element.files.map((file) => new ReviewFileItem(element.repo, file));
+    }
+    if (element instanceof ReviewFileItem) {
+      const diff = await readFileDiff(this.client, element.repo.path, element.file).catch(() => undefined);
+      return diff?.hunks.map((hunk) => new ReviewHunkItem(element.repo, element.file, diff, hunk)) ?? [];
+    }
+    return [];
+  }
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const { repo, path: filePath, ref } = JSON.parse(uri.query) as { repo: string; path: string; ref?: string };
+    if (ref === undefined) {
+      return "";
+    }
+    return this.client
+      .run(repo, "query", (git) => git.raw(["show", `${ref}:${filePath.split(path.sep).join("/")}`]), { record: false })
+      .catch(() => "");
+  }
+
+  /** Opens VS Code's diff editor on the file, at the hunk when given one. */
+  async openDiff(node: ReviewFileItem | ReviewHunkItem): Promise<void> {
+    const { repo, file } = node;
+    const workingCopy = vscode.Uri.file(path.join(repo.path, file.path));
+    if (file.status === "?" || file.status === "U") {
+      await vscode.commands.executeCommand("vscode.open", workingCopy);
+      return;
+    }
+    const [left, right] = file.section === "staged"
+      ? [
+          reviewUri(repo.path, file.from ?? file.path, file.status === "A" ? undefined : "HEAD"),
+          reviewUri(repo.path, file.path, file.status === "D" ? undefined : ""),
+        ]
+      : [
+          reviewUri(repo.path, file.path, ""),
+          file.status === "D" ? reviewUri(repo.path, file.path, undefined) : workingCopy,
+        ];
+    const title = `${path.basename(file.path)} (${repo.name} · ${file.section === "staged" ? "Index" : "Working Tree"})`;
+    const line = node instanceof ReviewHunkItem ? Math.max(node.hunk.newStart - 1, 0) : undefined;
+    await vscode.commands.executeCommand(
+      "vscode.diff",
+      left,
+      right,
+      title,
+      line === undefined ? {} : { selection: new vscode.Range(line, 0, line, 0) },
+    );
+  }
+
+  stage(node: ReviewFileItem | ReviewHunkItem): Promise<void> {
+    return this.change(node, "Stage", () =>
+      node instanceof ReviewHunkItem
+        ? stageHunk(this.client, node.repo.path, node.diff, node.hunk)
+        : stageFile(this.client, node.repo.path, node.file),
+    );
+  }
+
+  unstage(node: ReviewFileItem | ReviewHunkItem): Promise<void> {
+    return this.change(node, "Unstage", () =>
+      node instanceof ReviewHunkItem
+        ? unstageHunk(this.client, node.repo.path, node.diff, node.hunk)
+        : unstageFile(this.client, node.repo.path, node.file),
+    );
+  }
+
+  /** Callers confirm first: the working tree change is lost. */
+  discard(node: ReviewFileItem | ReviewHunkItem): Promise<void> {
+    return this.change(node, "Discard", () =>
+      node instanceof ReviewHunkItem
+        ? discardHunk(this.client, node.repo.path, node.diff, node.hunk)
+        : discardFile(this.client, node.repo.path, node.file),
+    );
+  }
+
+  private async change(node: ReviewFileItem | ReviewHunkItem, action: string, run: () => Promise<void>): Promise<void> {
+    try {
+      await run();
+    } catch (e: any) {
+      vscode.window.showErrorMessage(`❌ ${action} failed in ${node.repo.name} (${node.file.path}): ${e.message || e}`);
+    }
+    this.store.invalidate(node.repo.path);
+    this.update();
+  }
+
+  dispose(): void {
+    this.storeListener.dispose();
+    this._onDidChangeTreeData.dispose();
+    this._onDidChange.dispose();
+  }
+}
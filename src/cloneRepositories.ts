@@ -0,0 +1,189 @@
+import * as vscode from "vscode";
+import * as path from "node:path";
+import { readManifestFile, ResolvedManifestRepo } from "./manifest";
+import { validateBranchName, validateRemoteURL } from "./validators";
+
+/** One repository to clone into `path`. */
+export interface CloneTarget {
+  name: string;
+  path: string;
+  url: string;
+  branch?: string;
+}
+
+export interface CloneOptions {
+  /** Overrides each target's branch when set. */
+  branch?: string;
+  /** `--depth` for shallow clones. */
+  depth?: number;
+}
+
+/** Folder name git would clone `url` into, e.g. `git@host:acme/api.git` → `api`. */
+export function repoNameFromUrl(url: string): string {
+  const trimmed = url.trim().replace(/[/\\]+$/, "").replace(/\.git$/, "");
+  const name = trimmed.split(/[/\\:]/).pop();
+  return name || "repo";
+}
+
+/**
+ * Splits a whitespace- or comma-separated list of remote URLs, validating
+ * each with `validateRemoteURL`. Duplicates are dropped.
+ */
+export function parseRemoteURLList(text: string): { urls: string[]; errors: string[] } {
+  const urls: string[] = [];
+  const errors: string[] = [];
+  for (const url of text.split(/[\s,]+/).filter(Boolean)) {
+    const validation = validateRemoteURL(url);
+    if (!validation.valid) {
+      errors.push(`${url}: ${validation.error}`);
+    } else if (!urls.includes(url)) {
+      urls.push(url);
+    }
+  }
+  return { urls, errors };
+}
+
+/** Repositories whose names collide get the URL's parent segment as a prefix. */
+export function cloneTargetsFromUrls(urls: string[], folder: string): CloneTarget[] {
+  const names = urls.map(repoNameFromUrl);
+  return urls.map((url, index) => {
+    let name = names[index];
+    if (names.indexOf(name) !== names.lastIndexOf(name)) {
+      const segments = url.replace(/\.git$/, "").split(/[/\\:]/).filter(Boolean);
+      name = segments.slice(-2).join("-");
+    }
+    return { name, path: path.join(folder, name), url };
+  });
+}
+
+export function cloneTargetsFromManifest(entries: ResolvedManifestRepo[]): CloneTarget[] {
+  return entries
+    .filter((entry) => entry.url)
+    .map((entry) => ({
+      name: entry.name,
+      path: entry.absolutePath,
+      url: entry.url!,
+      branch: entry.defaultBranch,
+    }));
+}
+
+async function promptUrls(): Promise<string[] | undefined> {
+  const input = await vscode.window.showInputBox({
+    prompt: "Remote URLs to clone, separated by spaces or commas",
+    placeHolder: "git@github.com:acme/api.git https://github.com/acme/web.git",
+    ignoreFocusOut: true,
+    validateInput: (value) => {
+      const { urls, errors } = parseRemoteURLList(value);
+      if (errors.length > 0) {
+        return errors[0];
+      }
+      return urls.length === 0 ? "Enter at least one URL" : undefined;
+    },
+  });
+  return input ? parseRemoteURLList(input).urls : undefined;
+}
+
+async function promptFolder(): Promise<string | undefined> {
+  const folders = await vscode.window.showOpenDialog({
+    canSelectFolders: true,
+    canSelectFiles: false,
+    canSelectMany: false,
+    defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+    openLabel: "Clone Here",
+  });
+  return folders?.[0]?.fsPath;
+}
+
+async function promptManifestFile(): Promise<ResolvedManifestRepo[] | undefined> {
+  const files = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+    filters: { "Repository manifest": ["json", "yaml", "yml"] },
+    openLabel: "Use Manifest",
+  });
+  if (!files?.[0]) {
+    return undefined;
+  }
+  try {
+    return await readManifestFile(files[0].fsPath);
+  } catch (e: any) {
+    vscode.window.showErrorMessage(`❌ ${e.message || e}`);
+    return undefined;
+  }
+}
+
+/**
+ * Asks where the repositories to clone come from: a list of URLs cloned
+ * into a chosen folder, the workspace manifest's missing entries, or another
+ * manifest file.
+ */
+export async function pickCloneTargets(
+  getMissing: () => Promise<ResolvedManifestRepo[]>,
+): Promise<CloneTarget[] | undefined> {
+  const missing = await getMissing();
+  const source = await vscode.window.showQuickPick(
+    [
+      { label: "$(link) Enter remote URLs…", value: "urls" },
+      {
+        label: "$(book) Missing repositories from the workspace manifest",
+        description: `${missing.length} missing`,
+        value: "workspaceManifest",
+      },
+      { label: "$(file) Manifest file…", value: "manifestFile" },
+    ],
+    { placeHolder: "What do you want to clone?" },
+  );
+  if (!source) {return undefined;}
+
+  if (source.value === "urls") {
+    const urls = await promptUrls();
+    if (!urls) {return undefined;}
+    const folder = await promptFolder();
+    return folder ? cloneTargetsFromUrls(urls, folder) : undefined;
+  }
+
+  const entries = source.value === "workspaceManifest" ? missing : await promptManifestFile();
+  if (!entries) {return undefined;}
+  const targets = cloneTargetsFromManifest(entries);
+  if (targets.length === 0) {
+    vscode.window.showInformationMessage("ℹ️ Nothing to clone: no manifest entries with a URL.");
+    return undefined;
+  }
+  const picks = await vscode.window.showQuickPick(
+    targets.map((target) => ({
+      label: target.name,
+      description: vscode.workspace.asRelativePath(target.path),
+      detail: target.url,
+      picked: true,
+      target,
+    })),
+    { canPickMany: true, placeHolder: "Select repositories to clone" },
+  );
+  return picks && picks.length > 0 ? picks.map((pick) => pick.target) : undefined;
+}
+
+/** Shallow and branch options; `undefined` when dismissed. */
+export async function promptCloneOptions(): Promise<CloneOptions | undefined> {
+  const picks = await vscode.window.showQuickPick(
+    [
+      { label: "Shallow clone", description: "--depth 1", value: "shallow" },
+      { label: "Check out a specific branch…", description: "--branch", value: "branch" },
+    ],
+    { canPickMany: true, placeHolder: "Clone options (none selected = full clone of the default branch)" },
+  );
+  if (!picks) {return undefined;}
+
+  const options: CloneOptions = {};
+  if (picks.some((pick) => pick.value === "shallow")) {
+    options.depth = 1;
+  }
+  if (picks.some((pick) => pick.value === "branch")) {
+    const branch = await vscode.window.showInputBox({
+      prompt: "Branch to check out in every clone",
+      validateInput: (value) => validateBranchName(value).error,
+    });
+    if (!branch) {return undefined;}
+    options.branch = branch;
+  }
+  return options;
+}
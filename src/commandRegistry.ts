@@ -12,7 +12,7 @@ export interface CommandDefinition {
   handler: CommandHandler;
 }
 
-// All 26 commands with their definitions
+// All commands with their definitions
 export const COMMANDS: CommandDefinition[] = [
   {
     id: "multi-repo-git-commands.runGitAll",
@@ -41,7 +41,13 @@ export const COMMANDS: CommandDefinition[] = [
   {
     id: "multi-repo-git-commands.pullAll",
     label: "Pull All",
-    description: "Pull with rebase for all repositories",
+    description: "Pull all repositories with the configured strategy",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.pullAllWithStrategy",
+    label: "Pull All With Strategy…",
+    description: "Pull all repositories with rebase, merge or fast-forward only",
     handler: async () => {},
   },
   {
@@ -50,10 +56,16 @@ export const COMMANDS: CommandDefinition[] = [
     description: "Push branches to remote for all repositories",
     handler: async () => {},
   },
+  {
+    id: "multi-repo-git-commands.pushAllWithOptions",
+    label: "Push All With Options…",
+    description: "Push to a chosen remote with upstream, tag and force-with-lease options",
+    handler: async () => {},
+  },
   {
     id: "multi-repo-git-commands.commitAll",
     label: "Commit All",
-    description: "Create a commit in all repositories",
+    description: "Pick files and messages per repository and commit",
     handler: async () => {},
   },
   {
@@ -134,12 +146,216 @@ export const COMMANDS: CommandDefinition[] = [
     description: "Reset all repositories (discard changes, fetch, pull)",
     handler: async () => {},
   },
+  {
+    id: "multi-repo-git-commands.exportLastResult",
+    label: "Export Last Result",
+    description: "Export the structured result of the last bulk operation as JSON",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.undoLastOperation",
+    label: "Undo Last Multi-Repo Operation",
+    description: "Restore each repository to its state before the last bulk command",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.restoreBackup",
+    label: "Restore Backup",
+    description: "Re-apply changes backed up before Discard All or Reset Workspace",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.toggleDryRun",
+    label: "Toggle Dry Run",
+    description: "Preview what bulk commands would do in each repository instead of running them",
+    handler: async () => {},
+  },
   {
     id: "multi-repo-git-commands.customRepo",
     label: "Custom Git Command (This Repo)",
     description: "Run custom git command on selected repository",
     handler: async () => {},
   },
+  {
+    id: "multi-repo-git-commands.selectGroup",
+    label: "Select Active Group",
+    description: "Scope bulk commands to a named repository group",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.createGroup",
+    label: "Create Group",
+    description: "Create a named group of repositories",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.editGroup",
+    label: "Edit Group",
+    description: "Change the repositories or patterns of a group",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.deleteGroup",
+    label: "Delete Group",
+    description: "Delete a named repository group",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.refreshDashboard",
+    label: "Refresh Repositories",
+    description: "Reload the status shown in the Repositories view",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.showRepoSummary",
+    label: "Show Repositories Needing Attention",
+    description: "Pick a dirty, behind or diverged repository to pull, diff or open",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.reviewAllChanges",
+    label: "Review All Changes",
+    description: "Show every repository's uncommitted files and hunks in the Review Changes view",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.refreshReview",
+    label: "Refresh Review",
+    description: "Reload the files shown in the Review Changes view",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.openReviewDiff",
+    label: "Open Changes",
+    description: "Open the diff of a file or hunk from the Review Changes view",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.reviewStage",
+    label: "Stage",
+    description: "Stage a file or hunk from the Review Changes view",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.reviewUnstage",
+    label: "Unstage",
+    description: "Unstage a file or hunk from the Review Changes view",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.reviewDiscard",
+    label: "Discard Changes",
+    description: "Discard a file or hunk from the Review Changes view",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.compareBranches",
+    label: "Compare Branches",
+    description: "Show per-repository commits and changed files between two branches, tags or commits",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.rescanRepositories",
+    label: "Rescan Repositories",
+    description: "Discard the cached repository list and scan all workspace folders again",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.cloneRepositories",
+    label: "Clone Repositories",
+    description: "Clone a list of remote URLs or a manifest's repositories in parallel",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.cloneMissingRepos",
+    label: "Clone Missing Repositories",
+    description: "Clone repositories listed in the workspace manifest that are not present yet",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.cloneMissingRepo",
+    label: "Clone Repository",
+    description: "Clone one missing manifest repository from the Repositories view",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.statusRepo",
+    label: "Status (This Repo)",
+    description: "Show git status for the selected repository",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.fetchRepo",
+    label: "Fetch (This Repo)",
+    description: "Fetch all remotes for the selected repository",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.pullRepo",
+    label: "Pull (This Repo)",
+    description: "Pull the selected repository with the configured strategy",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.pushRepo",
+    label: "Push (This Repo)",
+    description: "Push the current branch of the selected repository",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.commitRepo",
+    label: "Commit (This Repo)",
+    description: "Create a commit in the selected repository",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.stashRepo",
+    label: "Stash (This Repo)",
+    description: "Stash changes in the selected repository",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.popStashRepo",
+    label: "Pop Stash (This Repo)",
+    description: "Pop the latest stash in the selected repository",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.discardRepo",
+    label: "Discard (This Repo)",
+    description: "Discard all uncommitted changes in the selected repository (DESTRUCTIVE)",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.checkoutRepo",
+    label: "Switch Branch (This Repo)",
+    description: "Switch branch in the selected repository",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.createBranchRepo",
+    label: "Create Branch (This Repo)",
+    description: "Create a new branch in the selected repository",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.deleteBranchRepo",
+    label: "Delete Branch (This Repo)",
+    description: "Delete a branch from the selected repository",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.createTagRepo",
+    label: "Create Tag (This Repo)",
+    description: "Create a tag in the selected repository",
+    handler: async () => {},
+  },
+  {
+    id: "multi-repo-git-commands.deleteTagRepo",
+    label: "Delete Tag (This Repo)",
+    description: "Delete a tag from the selected repository",
+    handler: async () => {},
+  },
   {
     id: "multi-repo-git-commands.openRepo",
     label: "Open Repository",
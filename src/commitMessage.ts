@@ -0,0 +1,118 @@
+import * as vscode from "vscode";
+import { groupsOf } from "./repoGroups";
+import { ValidationResult } from "./validators";
+
+/** Commit message rules; `maxSubjectLength: 0` means no limit. */
+export interface CommitRules {
+  maxSubjectLength: number;
+  blankSecondLine: boolean;
+  requireType: boolean;
+}
+
+export const DEFAULT_COMMIT_RULES: CommitRules = {
+  maxSubjectLength: 0,
+  blankSecondLine: false,
+  requireType: false,
+};
+
+export const DEFAULT_COMMIT_TYPES = ["feat", "fix", "docs", "style", "refactor", "perf", "test", "build", "ci", "chore", "revert"];
+
+export const DEFAULT_TICKET_PATTERN = "[A-Z][A-Z0-9]+-\\d+";
+
+function config() {
+  return vscode.workspace.getConfiguration("multiRepoGit");
+}
+
+/** `multiRepoGit.commitTemplates`: message templates by name. */
+export function getCommitTemplates(): Record<string, string> {
+  return config().get<Record<string, string>>("commitTemplates", {});
+}
+
+export function getCommitTypes(): string[] {
+  const types = config().get<string[]>("commitTypes", DEFAULT_COMMIT_TYPES);
+  return types.length > 0 ? types : DEFAULT_COMMIT_TYPES;
+}
+
+/** `multiRepoGit.ticketPattern` as a regular expression; `undefined` when empty or invalid. */
+export function getTicketPattern(): RegExp | undefined {
+  const source = config().get<string>("ticketPattern", DEFAULT_TICKET_PATTERN);
+  if (!source) {
+    return undefined;
+  }
+  try {
+    return new RegExp(source);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Rules for a repository in `groups` (in configuration order): the first of
+ * its groups with rules of its own overrides the fields it sets.
+ */
+export function resolveCommitRules(
+  groups: readonly string[],
+  groupRules: Readonly<Record<string, Partial<CommitRules>>>,
+  base: CommitRules,
+): CommitRules {
+  const group = groups.find((name) => groupRules[name] !== undefined);
+  return group ? { ...base, ...groupRules[group] } : base;
+}
+
+export function getCommitRules(repoPath: string): CommitRules {
+  return resolveCommitRules(
+    groupsOf(repoPath),
+    config().get<Record<string, Partial<CommitRules>>>("groupCommitRules", {}),
+    { ...DEFAULT_COMMIT_RULES, ...config().get<Partial<CommitRules>>("commitRules", {}) },
+  );
+}
+
+/** Ticket ID in a branch name, e.g. `ABC-123` in `feature/ABC-123-login`. */
+export function extractTicket(branch: string | undefined, pattern: RegExp | undefined): string | undefined {
+  return branch && pattern ? pattern.exec(branch)?.[0] : undefined;
+}
+
+/** Prefixes `ticket: ` unless the subject already mentions the ticket. */
+export function applyTicket(message: string, ticket: string | undefined): string {
+  if (!ticket || message.split("\n")[0].includes(ticket)) {
+    return message;
+  }
+  return `${ticket}: ${message}`;
+}
+
+/** `type(scope): ` for the start of a conventional commit subject. */
+export function conventionalPrefix(type: string, scope?: string): string {
+  return scope?.trim() ? `${type}(${scope.trim()}): ` : `${type}: `;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Checks `message` against `rules`. The subject may start with `ticket: `
+ * before its conventional commit type.
+ */
+export function validateCommitRules(
+  message: string,
+  rules: CommitRules,
+  types: readonly string[],
+  ticket?: string,
+): ValidationResult {
+  const lines = message.split("\n");
+  const subject = lines[0];
+  if (rules.maxSubjectLength > 0 && subject.length > rules.maxSubjectLength) {
+    return { valid: false, error: `Subject is ${subject.length} characters (max ${rules.maxSubjectLength})` };
+  }
+  if (rules.blankSecondLine && lines.length > 1 && lines[1].trim() !== "") {
+    return { valid: false, error: "Leave the second line blank to separate the subject from the body" };
+  }
+  if (rules.requireType) {
+    const withoutTicket = ticket && subject.startsWith(`${ticket}: `) ? subject.slice(ticket.length + 2) : subject;
+    const typed = new RegExp(`^(${types.map(escapeRegExp).join("|")})(\\([^()]+\\))?!?: \\S`);
+    if (!typed.test(withoutTicket)) {
+      return { valid: false, error: `Subject must start with a commit type, e.g. "${types[0] ?? "feat"}: " or "${types[0] ?? "feat"}(scope): "` };
+    }
+  }
+  return { valid: true };
+}
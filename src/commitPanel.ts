@@ -0,0 +1,103 @@
+import * as vscode from "vscode";
+import { HtmlGenerator, getNonce } from "./htmlGenerator";
+import { CommitRequest, RepoCommitChanges, defaultSelection } from "./commits";
+import { getCommitTemplates, getCommitTypes } from "./commitMessage";
+
+/**
+ * Webview panel for committing in several repositories at once: files to
+ * commit per repository, a shared message with optional per-repository
+ * messages, and amend/sign-off/no-verify options. Templates, a conventional
+ * commit type/scope picker and ticket IDs from branch names help write the
+ * message. A single panel is reused.
+ */
+export class CommitPanel {
+  public static readonly viewType = "multi-repo-git-commit";
+
+  private static current?: CommitPanel;
+
+  private changes: RepoCommitChanges[] = [];
+  private cleanCount = 0;
+  // Resolves to an error to show in the panel, or `undefined` once the commit has started
+  private commit?: (request: CommitRequest) => Promise<string | undefined>;
+  private ready = false;
+
+  private constructor(private readonly panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
+    panel.webview.html = HtmlGenerator.generateCommitPanelHtml(panel.webview, extensionUri, getNonce());
+
+    panel.onDidDispose(() => {
+      if (CommitPanel.current === this) {
+        CommitPanel.current = undefined;
+      }
+    });
+
+    panel.webview.onDidReceiveMessage(async (data) => {
+      switch (data.type) {
+        case "ready":
+          this.ready = true;
+          this.post();
+          break;
+        case "commit": {
+          const error = await this.commit?.(data.request as CommitRequest);
+          if (error) {
+            this.panel.webview.postMessage({ type: "error", message: error });
+          } else {
+            this.panel.dispose();
+          }
+          break;
+        }
+        case "cancel":
+          this.panel.dispose();
+          break;
+      }
+    });
+  }
+
+  /** Lists `changes` (repositories with something to commit); `cleanCount` repositories were left out. */
+  public static show(
+    extensionUri: vscode.Uri,
+    changes: RepoCommitChanges[],
+    cleanCount: number,
+    commit: (request: CommitRequest) => Promise<string | undefined>,
+  ): CommitPanel {
+    if (!CommitPanel.current) {
+      const panel = vscode.window.createWebviewPanel(
+        CommitPanel.viewType,
+        "Multi Repo Git: Commit",
+        { viewColumn: vscode.ViewColumn.Active, preserveFocus: false },
+        {
+          enableScripts: true,
+          retainContextWhenHidden: true,
+          localResourceRoots: [extensionUri],
+        },
+      );
+      CommitPanel.current = new CommitPanel(panel, extensionUri);
+    }
+    const current = CommitPanel.current;
+    current.changes = changes;
+    current.cleanCount = cleanCount;
+    current.commit = commit;
+    current.panel.reveal(undefined, false);
+    current.post();
+    return current;
+  }
+
+  private post() {
+    if (!this.ready) {
+      return;
+    }
+    this.panel.webview.postMessage({
+      type: "init",
+      cleanCount: this.cleanCount,
+      templates: getCommitTemplates(),
+      types: getCommitTypes(),
+      repos: this.changes.map((change) => ({
+        name: change.repo.name,
+        path: change.repo.path,
+        branch: change.branch,
+        ticket: change.ticket,
+        files: change.files,
+        selected: defaultSelection(change.files),
+      })),
+    });
+  }
+}
@@ -0,0 +1,136 @@
+import { StatusResult } from "simple-git";
+import { RepoInfo } from "./extension";
+import { CommitOptions, GitClient } from "./gitClient";
+import { validateCommitMessage } from "./validators";
+import { CommitRules, applyTicket, extractTicket, getCommitRules, getTicketPattern, validateCommitRules } from "./commitMessage";
+
+/** A changed file as `git status --porcelain` reports it (`index`/`workingDir` are its XY codes). */
+export interface CommitFile {
+  path: string;
+  /** Original path of a rename. */
+  from?: string;
+  index: string;
+  workingDir: string;
+}
+
+export interface RepoCommitChanges {
+  repo: RepoInfo;
+  branch?: string;
+  /** Ticket ID found in the branch name. */
+  ticket?: string;
+  rules: CommitRules;
+  files: CommitFile[];
+}
+
+/**
+ * What the commit panel asks for: a shared message, options and, per
+ * repository, the files to commit. `ticketPrefix` prefixes each message with
+ * the ticket ID of the repository's branch.
+ */
+export interface CommitRequest {
+  message: string;
+  options: CommitOptions;
+  ticketPrefix?: boolean;
+  repos: { path: string; files: string[]; message?: string }[];
+}
+
+export function isStaged(file: CommitFile): boolean {
+  return file.index !== " " && file.index !== "?";
+}
+
+export function commitFiles(status: Pick<StatusResult, "files">): CommitFile[] {
+  return status.files.map((file) => ({
+    path: file.path,
+    from: file.from && file.from !== file.path ? file.from : undefined,
+    index: file.index,
+    workingDir: file.working_dir,
+  }));
+}
+
+/** Files checked when the panel opens: the staged ones, or every file when nothing is staged. */
+export function defaultSelection(files: CommitFile[]): string[] {
+  const staged = files.filter(isStaged);
+  return (staged.length > 0 ? staged : files).map((file) => file.path);
+}
+
+/**
+ * The repository's own message when it has one, the shared message
+ * otherwise, prefixed with `ticket` when the request asks for it.
+ */
+export function commitMessageFor(request: CommitRequest, repoPath: string, ticket?: string): string {
+  const override = request.repos.find((repo) => repo.path === repoPath)?.message?.trim();
+  const message = override || request.message.trim();
+  return request.ticketPrefix ? applyTicket(message, ticket) : message;
+}
+
+/** First problem that keeps the request from being committed, if any. */
+export function validateCommitRequest(
+  request: CommitRequest,
+  changes: readonly RepoCommitChanges[],
+  types: readonly string[],
+): string | undefined {
+  if (request.repos.length === 0) {
+    return "Select at least one repository";
+  }
+  for (const repo of request.repos) {
+    const change = changes.find((candidate) => candidate.repo.path === repo.path);
+    const name = change?.repo.name ?? repo.path;
+    if (repo.files.length === 0 && !request.options.amend) {
+      return `${name}: select at least one file, or amend the last commit`;
+    }
+    const message = commitMessageFor(request, repo.path, change?.ticket);
+    const validation = validateCommitMessage(message);
+    const ruled = validation.valid && change ? validateCommitRules(message, change.rules, types, change.ticket) : validation;
+    if (!ruled.valid) {
+      return `${name}: ${ruled.error}`;
+    }
+  }
+  return undefined;
+}
+
+export async function readCommitChanges(client: GitClient, repo: RepoInfo): Promise<RepoCommitChanges> {
+  const status = await client.run(repo.path, "status", (git) => git.status(["--untracked-files=all"]), { record: false });
+  const branch = status.current ?? undefined;
+  return {
+    repo,
+    branch,
+    ticket: status.detached ? undefined : extractTicket(branch, getTicketPattern()),
+    rules: getCommitRules(repo.path),
+    files: commitFiles(status),
+  };
+}
+
+/**
+ * Makes the index hold exactly the selected files: selected files without
+ * staged changes are staged as a whole, staged files left unselected are
+ * unstaged. Selected files that are already staged keep their staged
+ * content, so partially staged files commit what was staged.
+ */
+export async function stageSelection(
+  client: GitClient,
+  repoPath: string,
+  files: CommitFile[],
+  selected: readonly string[],
+): Promise<void> {
+  const chosen = new Set(selected);
+  const toStage = files.filter((file) => chosen.has(file.path) && !isStaged(file)).map((file) => file.path);
+  const toUnstage = files
+    .filter((file) => !chosen.has(file.path) && isStaged(file))
+    .flatMap((file) => (file.from ? [file.from, file.path] : [file.path]));
+
+  if (toStage.length > 0) {
+    await client.run(repoPath, "stage", (git) => git.raw(["add", "-A", "--", ...toStage]));
+  }
+  if (toUnstage.length > 0) {
+    await unstagePaths(client, repoPath, toUnstage);
+  }
+}
+
+/** Resets `paths` in the index to HEAD, keeping the working tree. */
+export async function unstagePaths(client: GitClient, repoPath: string, paths: readonly string[]): Promise<void> {
+  // Before the first commit there is no HEAD to reset the index to
+  const args = (await client.head(repoPath))
+    ? ["reset", "-q", "--", ...paths]
+    : ["rm", "-r", "-q", "--cached", "--", ...paths];
+  await client.run(repoPath, "unstage", (git) => git.raw(args));
+}
@@ -0,0 +1,92 @@
+import * as vscode from "vscode";
+import { HtmlGenerator, getNonce } from "./htmlGenerator";
+import { RefComparison } from "./compareRefs";
+
+/**
+ * Webview panel comparing two refs in every repository: ahead/behind
+ * counts, commit lists and changed files, with repositories missing either
+ * ref highlighted. A single panel is reused across comparisons.
+ */
+export class ComparePanel {
+  public static readonly viewType = "multi-repo-git-compare";
+
+  private static current?: ComparePanel;
+
+  private base = "";
+  private compare = "";
+  private rows: RefComparison[] = [];
+  private rerun?: (base: string, compare: string) => void;
+  private ready = false;
+
+  private constructor(private readonly panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
+    panel.webview.html = HtmlGenerator.generateComparePanelHtml(panel.webview, extensionUri, getNonce());
+
+    panel.onDidDispose(() => {
+      if (ComparePanel.current === this) {
+        ComparePanel.current = undefined;
+      }
+    });
+
+    panel.webview.onDidReceiveMessage((data) => {
+      switch (data.type) {
+        case "ready":
+          this.ready = true;
+          this.post();
+          break;
+        case "refresh":
+          this.rerun?.(this.base, this.compare);
+          break;
+        case "swap":
+          this.rerun?.(this.compare, this.base);
+          break;
+        case "close":
+          this.panel.dispose();
+          break;
+      }
+    });
+  }
+
+  /** Shows what `compare` has that `base` lacks; `rerun` compares again, e.g. with the refs swapped. */
+  public static show(
+    extensionUri: vscode.Uri,
+    base: string,
+    compare: string,
+    rows: RefComparison[],
+    rerun: (base: string, compare: string) => void,
+  ): ComparePanel {
+    if (!ComparePanel.current) {
+      const panel = vscode.window.createWebviewPanel(
+        ComparePanel.viewType,
+        "Multi Repo Git: Compare",
+        { viewColumn: vscode.ViewColumn.Active, preserveFocus: false },
+        {
+          enableScripts: true,
+          retainContextWhenHidden: true,
+          localResourceRoots: [extensionUri],
+        },
+      );
+      ComparePanel.current = new ComparePanel(panel, extensionUri);
+    }
+    const current = ComparePanel.current;
+    current.base = base;
+    current.compare = compare;
+    current.rows = rows;
+    current.rerun = rerun;
+    current.panel.title = `Compare: ${compare} ↔ ${base}`;
+    current.panel.reveal(undefined, false);
+    current.post();
+    return current;
+  }
+
+  private post() {
+    if (!this.ready) {
+      return;
+    }
+    this.panel.webview.postMessage({
+      type: "init",
+      base: this.base,
+      compare: this.compare,
+      rows: this.rows,
+    });
+  }
+}
@@ -0,0 +1,181 @@
+import * as vscode from "vscode";
+import { GitClient } from "./gitClient";
+import { RepoInfo } from "./extension";
+import { refExists } from "./dryRun";
+
+const LAST_REFS_KEY = "multiRepoGit.lastCompareRefs";
+
+/** Commits listed per side; the counts still cover all of them. */
+export const MAX_COMPARE_COMMITS = 200;
+
+export interface CompareCommit {
+  hash: string;
+  author: string;
+  date: string;
+  subject: string;
+}
+
+export interface CompareFile {
+  /** Status letter from `git diff --name-status`: `A`, `M`, `D`, `R`, `C` or `T`. */
+  status: string;
+  path: string;
+  /** Original path of a rename or copy. */
+  from?: string;
+}
+
+/** How `compare` differs from `base` in one repository. */
+export interface RefComparison {
+  name: string;
+  path: string;
+  /** The refs that do not resolve to a commit here; the repository is skipped when non-empty. */
+  missing: string[];
+  /** Commits in `compare` that are not in `base`. */
+  ahead: number;
+  /** Commits in `base` that are not in `compare`. */
+  behind: number;
+  aheadCommits: CompareCommit[];
+  behindCommits: CompareCommit[];
+  /** Files changed on `compare` since it left `base` (`base...compare`). */
+  files: CompareFile[];
+  error?: string;
+}
+
+/** Parses `git log --format=%h%x09%an%x09%ad%x09%s --date=short`. */
+export function parseCommitLog(text: string): CompareCommit[] {
+  return text
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => {
+      const [hash, author, date, ...subject] = line.split("\t");
+      return { hash, author, date, subject: subject.join("\t") };
+    });
+}
+
+/** Parses `git diff --name-status -M`; renames and copies carry their score, e.g. `R087`. */
+export function parseNameStatus(text: string): CompareFile[] {
+  return text
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => {
+      const [code, first, second] = line.split("\t");
+      const status = code.charAt(0);
+      return second !== undefined ? { status, path: second, from: first } : { status, path: first };
+    });
+}
+
+/** e.g. `3 repos differ · 5 identical · 2 skipped (missing a ref)`. */
+export function summarizeComparisons(rows: readonly RefComparison[]): string {
+  const skipped = rows.filter((row) => row.missing.length > 0 || row.error).length;
+  const compared = rows.filter((row) => row.missing.length === 0 && !row.error);
+  const identical = compared.filter((row) => row.ahead === 0 && row.behind === 0 && row.files.length === 0).length;
+  const parts = [`${compared.length - identical} differ`, `${identical} identical`];
+  if (skipped > 0) {
+    parts.push(`${skipped} skipped (missing a ref or failed)`);
+  }
+  return parts.join(" · ");
+}
+
+export async function compareRefs(
+  client: GitClient,
+  repo: RepoInfo,
+  base: string,
+  compare: string,
+): Promise<RefComparison> {
+  const row: RefComparison = {
+    name: repo.name,
+    path: repo.path,
+    missing: [],
+    ahead: 0,
+    behind: 0,
+    aheadCommits: [],
+    behindCommits: [],
+    files: [],
+  };
+  for (const ref of base === compare ? [base] : [base, compare]) {
+    if (!(await refExists(client, repo.path, `${ref}^{commit}`))) {
+      row.missing.push(ref);
+    }
+  }
+  if (row.missing.length > 0) {
+    return row;
+  }
+
+  const git = (args: string[]) => client.run(repo.path, "query", (g) => g.raw(args), { record: false });
+  const log = (range: string) =>
+    git(["log", `-n${MAX_COMPARE_COMMITS}`, "--format=%h%x09%an%x09%ad%x09%s", "--date=short", range, "--"]).then(parseCommitLog);
+  try {
+    const [counts, aheadCommits, behindCommits, files] = await Promise.all([
+      git(["rev-list", "--left-right", "--count", `${base}...${compare}`, "--"]),
+      log(`${base}..${compare}`),
+      log(`${compare}..${base}`),
+      git(["diff", "--no-color", "--no-ext-diff", "--name-status", "-M", `${base}...${compare}`, "--"]).then(parseNameStatus),
+    ]);
+    const [behind, ahead] = counts.trim().split(/\s+/).map(Number);
+    Object.assign(row, { ahead, behind, aheadCommits, behindCommits, files });
+  } catch (e: any) {
+    // Unrelated histories have no merge base for `base...compare`
+    row.error = e.message || String(e);
+  }
+  return row;
+}
+
+/** Local and remote-tracking branches and tags, for the ref pickers. */
+export async function listRefs(client: GitClient, repoPath: string): Promise<string[]> {
+  const refs = await client.run(
+    repoPath,
+    "query",
+    (git) => git.raw(["for-each-ref", "--format=%(refname:short)", "refs/heads", "refs/remotes", "refs/tags"]),
+    { record: false },
+  );
+  return refs
+    .split("\n")
+    .map((ref) => ref.trim())
+    .filter((ref) => ref !== "" && !ref.endsWith("/HEAD"));
+}
+
+/** A branch or tag picker that also accepts any typed ref, e.g. a commit hash. */
+async function pickRef(title: string, refs: readonly string[], value?: string): Promise<string | undefined> {
+  const quickPick = vscode.window.createQuickPick();
+  const known = refs.map((ref) => ({ label: ref }));
+  quickPick.title = title;
+  quickPick.placeholder = "Branch, tag or commit";
+  const offer = (typed: string) => {
+    const ref = typed.trim();
+    quickPick.items = ref && !refs.includes(ref) ? [{ label: ref, description: "typed ref" }, ...known] : known;
+  };
+  quickPick.onDidChangeValue(offer);
+  quickPick.value = value ?? "";
+  offer(quickPick.value);
+
+  const ref = await new Promise<string | undefined>((resolve) => {
+    quickPick.onDidAccept(() => {
+      resolve(quickPick.selectedItems[0]?.label ?? (quickPick.value.trim() || undefined));
+      quickPick.hide();
+    });
+    quickPick.onDidHide(() => resolve(undefined));
+    quickPick.show();
+  });
+  quickPick.dispose();
+  return ref;
+}
+
+/**
+ * Asks for the two refs to compare, offering the refs found across `refs`
+ * and starting from the last pair compared in this workspace.
+ */
+export async function pickRefsToCompare(
+  state: vscode.Memento,
+  refs: readonly string[],
+): Promise<{ base: string; compare: string } | undefined> {
+  const last = state.get<{ base: string; compare: string }>(LAST_REFS_KEY);
+  const compare = await pickRef("Compare Branches (1/2): what to look at, e.g. release/2.3", refs, last?.compare);
+  if (!compare) {
+    return undefined;
+  }
+  const base = await pickRef(`Compare Branches (2/2): compare ${compare} against, e.g. main`, refs, last?.base);
+  if (!base) {
+    return undefined;
+  }
+  await state.update(LAST_REFS_KEY, { base, compare });
+  return { base, compare };
+}
@@ -0,0 +1,193 @@
+import * as vscode from "vscode";
+import * as path from "node:path";
+import { RepoInfo } from "./extension";
+import { RepoKind } from "./repoDiscovery";
+import { ResolvedManifestRepo } from "./manifest";
+import { RepoStatusStore, RepoStatusSummary, isDirty } from "./repoStatus";
+
+export class RepoTreeItem extends vscode.TreeItem {
+  constructor(readonly status: RepoStatusSummary) {
+    super(status.repo.name, vscode.TreeItemCollapsibleState.Collapsed);
+    this.id = status.repo.path;
+    this.resourceUri = vscode.Uri.file(status.repo.path);
+    this.contextValue = "repository";
+    this.description = describeStatus(status);
+    this.tooltip = tooltipFor(status);
+    this.iconPath = status.error
+      ? new vscode.ThemeIcon("warning")
+      : new vscode.ThemeIcon(
+          KIND_ICONS[status.repo.kind ?? "primary"],
+          isDirty(status) ? new vscode.ThemeColor("gitDecoration.modifiedResourceForeground") : undefined,
+        );
+  }
+}
+
+const KIND_ICONS: Record<RepoKind, string> = {
+  primary: "repo",
+  worktree: "list-tree",
+  submodule: "file-submodule",
+};
+
+function describeKind(repo: RepoInfo): string | undefined {
+  if (!repo.kind || repo.kind === "primary") {
+    return undefined;
+  }
+  const kind = repo.kind === "worktree" ? "Worktree" : "Submodule";
+  return repo.parent ? `${kind} of ${path.basename(repo.parent)}` : kind;
+}
+
+/** A manifest entry that has not been cloned yet. */
+export class MissingRepoTreeItem extends vscode.TreeItem {
+  constructor(readonly entry: ResolvedManifestRepo) {
+    super(entry.name, vscode.TreeItemCollapsibleState.None);
+    this.id = `missing:${entry.absolutePath}`;
+    this.contextValue = entry.url ? "missingRepository" : "missingRepositoryNoUrl";
+    this.description = entry.url ? "missing" : "missing · no URL in manifest";
+    this.tooltip = `${entry.absolutePath}\n${entry.url ?? "No URL in manifest"}`;
+    this.iconPath = new vscode.ThemeIcon(
+      "cloud-download",
+      new vscode.ThemeColor("disabledForeground"),
+    );
+  }
+}
+
+class DetailTreeItem extends vscode.TreeItem {
+  constructor(label: string, value: string, icon: string) {
+    super(label, vscode.TreeItemCollapsibleState.None);
+    this.description = value;
+    this.iconPath = new vscode.ThemeIcon(icon);
+  }
+}
+
+type DashboardNode = RepoTreeItem | MissingRepoTreeItem | DetailTreeItem;
+
+export function describeStatus(status: RepoStatusSummary): string {
+  if (status.error) {
+    return "status unavailable";
+  }
+  const parts = [status.detached ? `(detached) ${status.branch}` : status.branch];
+  if (status.ahead > 0) {
+    parts.push(`↑${status.ahead}`);
+  }
+  if (status.behind > 0) {
+    parts.push(`↓${status.behind}`);
+  }
+  const changes = status.staged + status.unstaged + status.untracked + status.conflicted;
+  if (changes > 0) {
+    parts.push(`●${changes}`);
+  }
+  return parts.join(" ");
+}
+
+function formatLastFetch(date?: Date): string {
+  return date ? date.toLocaleString() : "never";
+}
+
+function tooltipFor(status: RepoStatusSummary): vscode.MarkdownString {
+  const md = new vscode.MarkdownString();
+  md.appendMarkdown(`**${status.repo.name}**\n\n`);
+  md.appendMarkdown(`\`${status.repo.path}\`\n\n`);
+  const kind = describeKind(status.repo);
+  if (kind) {
+    md.appendMarkdown(`${kind}\n\n`);
+  }
+  if (status.error) {
+    md.appendMarkdown(`$(warning) ${status.error}`);
+    md.supportThemeIcons = true;
+    return md;
+  }
+  md.appendMarkdown(`Branch: ${status.branch}${status.detached ? " (detached)" : ""}  \n`);
+  md.appendMarkdown(`Upstream: ${status.upstream ?? "none"} (↑${status.ahead} ↓${status.behind})  \n`);
+  md.appendMarkdown(`Staged: ${status.staged} · Unstaged: ${status.unstaged} · Untracked: ${status.untracked}  \n`);
+  md.appendMarkdown(`Stashes: ${status.stashes}  \n`);
+  md.appendMarkdown(`Last fetch: ${formatLastFetch(status.lastFetch)}`);
+  return md;
+}
+
+/**
+ * "Repositories" view: one node per repository in scope with branch,
+ * upstream divergence, working tree counts, stashes and last fetch time.
+ */
+export class DashboardProvider implements vscode.TreeDataProvider<DashboardNode>, vscode.Disposable {
+  public static readonly viewType = "multi-repo-git-dashboard";
+
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<DashboardNode | undefined>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private readonly storeListener: vscode.Disposable;
+  private statuses: RepoStatusSummary[] = [];
+
+  constructor(
+    private readonly store: RepoStatusStore,
+    private readonly getRepos: () => Promise<RepoInfo[]>,
+    private readonly getMissing: () => Promise<ResolvedManifestRepo[]> = async () => [],
+  ) {
+    this.storeListener = store.onDidChange(() => this.update());
+  }
+
+  /** Re-reads the git status of every repository. */
+  refresh(): void {
+    this.store.invalidate();
+  }
+
+  /** Redraws the tree, e.g. after the set of repositories in scope changed. */
+  update(): void {
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  getTreeItem(element: DashboardNode): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: DashboardNode): Promise<DashboardNode[]> {
+    if (!element) {
+      this.statuses = await this.store.getAll(await this.getRepos());
+      // Worktrees and submodules are listed under their parent when it is in scope
+      const paths = new Set(this.statuses.map((status) => status.repo.path));
+      const missing = await this.getMissing();
+      return [
+        ...this.statuses
+          .filter((status) => !status.repo.parent || !paths.has(status.repo.parent))
+          .map((status) => new RepoTreeItem(status)),
+        ...missing.map((entry) => new MissingRepoTreeItem(entry)),
+      ];
+    }
+    if (!(element instanceof RepoTreeItem)) {
+      return [];
+    }
+
+    const status = element.status;
+    const nested = this.statuses
+      .filter((child) => child.repo.parent === status.repo.path)
+      .map((child) => new RepoTreeItem(child));
+    if (status.error) {
+      return [new DetailTreeItem("Error", status.error, "warning"), ...nested];
+    }
+    return [
+      new DetailTreeItem(
+        "Branch",
+        status.detached ? `${status.branch} (detached)` : status.branch,
+        "git-branch",
+      ),
+      new DetailTreeItem(
+        "Upstream",
+        status.upstream ? `${status.upstream} · ↑${status.ahead} ↓${status.behind}` : "none",
+        "cloud",
+      ),
+      new DetailTreeItem(
+        "Changes",
+        `${status.staged} staged · ${status.unstaged} unstaged · ${status.untracked} untracked`
+          + (status.conflicted > 0 ? ` · ${status.conflicted} conflicted` : ""),
+        "diff",
+      ),
+      new DetailTreeItem("Stashes", String(status.stashes), "archive"),
+      new DetailTreeItem("Last fetch", formatLastFetch(status.lastFetch), "history"),
+      ...nested,
+    ];
+  }
+
+  dispose(): void {
+    this.storeListener.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+}
@@ -0,0 +1,238 @@
+import * as vscode from "vscode";
+import { GitClient, PullStrategy } from "./gitClient";
+
+const DRY_RUN_KEY = "multiRepoGit.dryRun";
+
+/** What a command would do in one repository: change it, leave it as is, or fail. */
+export type DryRunVerdict = "change" | "unchanged" | "fail";
+
+export interface DryRunOutcome {
+  verdict: DryRunVerdict;
+  message: string;
+}
+
+/** The parts of `git status` the predictions look at. */
+export interface RepoState {
+  /** `undefined` when HEAD is detached. */
+  branch?: string;
+  upstream?: string;
+  ahead: number;
+  behind: number;
+  /** Staged, modified, deleted and conflicted tracked files. */
+  changed: number;
+  untracked: number;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+export async function readRepoState(client: GitClient, repoPath: string): Promise<RepoState> {
+  const status = await client.run(repoPath, "status", (git) => git.status(["--untracked-files=all"]), { record: false });
+  const untracked = status.files.filter((file) => file.index === "?" && file.working_dir === "?").length;
+  return {
+    branch: status.detached ? undefined : status.current ?? undefined,
+    upstream: status.tracking ?? undefined,
+    ahead: status.ahead,
+    behind: status.behind,
+    changed: status.files.length - untracked,
+    untracked,
+  };
+}
+
+/** `rebase.autoStash`, which lets `pull --rebase` run on a dirty working tree. */
+export async function readRebaseAutoStash(client: GitClient, repoPath: string): Promise<boolean> {
+  const value = await client
+    .run(repoPath, "query", (git) => git.raw(["config", "--bool", "rebase.autoStash"]), { record: false })
+    .catch(() => "");
+  return value.trim() === "true";
+}
+
+/** Whether `ref` (e.g. `refs/heads/main`) exists. */
+export async function refExists(client: GitClient, repoPath: string, ref: string): Promise<boolean> {
+  // `rev-parse --quiet` fails without output, which the git backend does not treat as an error
+  const sha = await client
+    .run(repoPath, "query", (git) => git.raw(["rev-parse", "--verify", "--quiet", ref]), { record: false })
+    .catch(() => "");
+  return sha.trim() !== "";
+}
+
+/** Remote-tracking branches named `branch` on any remote, e.g. `origin/feature`. */
+export async function remoteBranches(client: GitClient, repoPath: string, branch: string): Promise<string[]> {
+  const refs = await client.run(
+    repoPath,
+    "query",
+    (git) => git.raw(["for-each-ref", "--format=%(refname:short)", `refs/remotes/*/${branch}`]),
+    { record: false },
+  );
+  return refs.split("\n").filter(Boolean);
+}
+
+/**
+ * `git pull` with `strategy`, judged against the remote-tracking branch as of
+ * the last fetch. Only a rebase refuses to start on uncommitted changes; a
+ * merge or fast-forward fails later only if incoming commits touch them.
+ */
+export function predictPull(state: RepoState, autoStash = false, strategy: PullStrategy = "rebase"): DryRunOutcome {
+  if (!state.branch) {
+    return { verdict: "fail", message: "detached HEAD — nothing to pull into" };
+  }
+  if (!state.upstream) {
+    return { verdict: "fail", message: `${state.branch} has no upstream branch` };
+  }
+  if (state.changed > 0 && !autoStash && strategy === "rebase") {
+    return { verdict: "fail", message: `pull would refuse to rebase: ${plural(state.changed, "uncommitted change")}` };
+  }
+  if (state.behind === 0) {
+    return { verdict: "unchanged", message: `already up to date with ${state.upstream}` };
+  }
+  if (state.ahead === 0) {
+    return { verdict: "change", message: `would fast-forward ${plural(state.behind, "commit")}` };
+  }
+  switch (strategy) {
+    case "ff-only":
+      return { verdict: "fail", message: `diverged ↑${state.ahead} ↓${state.behind} — cannot fast-forward` };
+    case "merge":
+      return { verdict: "change", message: `would merge ${plural(state.behind, "upstream commit")} into ${state.branch}` };
+    default:
+      return {
+        verdict: "change",
+        message: `would rebase ${plural(state.ahead, "local commit")} onto ${plural(state.behind, "upstream commit")}`,
+      };
+  }
+}
+
+export function predictPush(state: RepoState): DryRunOutcome {
+  if (!state.branch) {
+    return { verdict: "fail", message: "detached HEAD — nothing to push" };
+  }
+  if (!state.upstream) {
+    return { verdict: "fail", message: `push would fail: ${state.branch} has no upstream branch` };
+  }
+  if (state.behind > 0) {
+    return { verdict: "fail", message: `push would be rejected: behind by ${state.behind}` };
+  }
+  if (state.ahead === 0) {
+    return { verdict: "unchanged", message: "nothing to push" };
+  }
+  return { verdict: "change", message: `would push ${plural(state.ahead, "commit")} to ${state.upstream}` };
+}
+
+/**
+ * `git checkout <target>`: switches to a local branch, or creates one from
+ * the only remote-tracking branch of that name.
+ */
+export function predictCheckout(state: RepoState, target: string, local: boolean, remotes: string[]): DryRunOutcome {
+  if (state.branch === target) {
+    return { verdict: "unchanged", message: `already on ${target}` };
+  }
+  const carried = state.changed > 0 ? `, carrying ${plural(state.changed, "uncommitted change")}` : "";
+  if (local) {
+    return { verdict: "change", message: `would switch from ${state.branch ?? "detached HEAD"} to ${target}${carried}` };
+  }
+  if (remotes.length === 1) {
+    return { verdict: "change", message: `would create ${target} tracking ${remotes[0]}${carried}` };
+  }
+  if (remotes.length > 1) {
+    return { verdict: "fail", message: `${target} is ambiguous: ${remotes.join(", ")}` };
+  }
+  return { verdict: "fail", message: `branch ${target} not present` };
+}
+
+export function predictCreateBranch(state: RepoState, branch: string, exists: boolean): DryRunOutcome {
+  return exists
+    ? { verdict: "fail", message: `branch ${branch} already exists` }
+    : { verdict: "change", message: `would create and check out ${branch} from ${state.branch ?? "detached HEAD"}` };
+}
+
+export function predictDeleteBranch(state: RepoState, branch: string, exists: boolean): DryRunOutcome {
+  if (!exists) {
+    return { verdict: "fail", message: `branch ${branch} not present` };
+  }
+  if (state.branch === branch) {
+    return { verdict: "fail", message: `${branch} is checked out and cannot be deleted` };
+  }
+  return { verdict: "change", message: `would delete branch ${branch}` };
+}
+
+export function predictCreateTag(tag: string, exists: boolean): DryRunOutcome {
+  return exists
+    ? { verdict: "fail", message: `tag ${tag} already exists` }
+    : { verdict: "change", message: `would tag HEAD as ${tag}` };
+}
+
+export function predictDeleteTag(tag: string, exists: boolean): DryRunOutcome {
+  return exists
+    ? { verdict: "change", message: `would delete tag ${tag}` }
+    : { verdict: "fail", message: `tag ${tag} not present` };
+}
+
+export function predictDiscard(state: RepoState): DryRunOutcome {
+  const files = state.changed + state.untracked;
+  if (files === 0) {
+    return { verdict: "unchanged", message: "nothing to discard" };
+  }
+  const parts: string[] = [];
+  if (state.changed > 0) {
+    parts.push(`${state.changed} changed`);
+  }
+  if (state.untracked > 0) {
+    parts.push(`${state.untracked} untracked`);
+  }
+  return { verdict: "change", message: `${plural(files, "file")} would be discarded (${parts.join(", ")})` };
+}
+
+/**
+ * Discard, fetch and pull: the pull starts from a clean working tree. With
+ * auto-stash the uncommitted files are stashed and re-applied instead.
+ */
+export function predictResetWorkspace(state: RepoState, autoStash = false, strategy: PullStrategy = "rebase"): DryRunOutcome {
+  const pull = predictPull({ ...state, changed: 0, untracked: 0 }, false, strategy);
+  const files = state.changed + state.untracked;
+  if (autoStash) {
+    return files > 0
+      ? { verdict: pull.verdict, message: `${pull.message}; ${plural(files, "uncommitted file")} stashed and re-applied` }
+      : pull;
+  }
+  const discard = predictDiscard(state);
+  const verdict = pull.verdict === "fail" ? "fail" : discard.verdict === "change" ? "change" : pull.verdict;
+  return { verdict, message: `${discard.message}; then ${pull.message}` };
+}
+
+/**
+ * Dry-run toggle, kept per workspace. While it is on, bulk commands preview
+ * what they would do instead of running; a status bar item says so.
+ */
+export class DryRunMode implements vscode.Disposable {
+  private readonly statusBarItem: vscode.StatusBarItem;
+
+  constructor(private readonly state: vscode.Memento) {
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 48);
+    this.statusBarItem.command = "multi-repo-git-commands.toggleDryRun";
+    this.statusBarItem.text = "$(beaker) Dry Run";
+    this.statusBarItem.tooltip = "Multi Repo Git: bulk commands only preview their effect. Click to turn dry run off.";
+    this.update();
+  }
+
+  get enabled(): boolean {
+    return this.state.get<boolean>(DRY_RUN_KEY, false);
+  }
+
+  async toggle(): Promise<boolean> {
+    await this.state.update(DRY_RUN_KEY, !this.enabled);
+    this.update();
+    return this.enabled;
+  }
+
+  private update(): void {
+    if (this.enabled) {
+      this.statusBarItem.show();
+    } else {
+      this.statusBarItem.hide();
+    }
+  }
+
+  dispose(): void {
+    this.statusBarItem.dispose();
+  }
+}
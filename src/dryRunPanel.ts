@@ -0,0 +1,95 @@
+import * as vscode from "vscode";
+import { HtmlGenerator, getNonce } from "./htmlGenerator";
+import { DryRunVerdict } from "./dryRun";
+
+export interface DryRunRow {
+  name: string;
+  path: string;
+  verdict: DryRunVerdict;
+  message: string;
+}
+
+/**
+ * Webview panel showing what a bulk command would do in each repository,
+ * with a "Run for real" button. A single panel is reused across previews.
+ */
+export class DryRunPanel {
+  public static readonly viewType = "multi-repo-git-dry-run";
+
+  private static current?: DryRunPanel;
+
+  private operationName = "";
+  private rows: DryRunRow[] = [];
+  private runForReal?: () => void;
+  private ready = false;
+
+  private constructor(private readonly panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
+    panel.webview.html = HtmlGenerator.generateDryRunPanelHtml(panel.webview, extensionUri, getNonce());
+
+    panel.onDidDispose(() => {
+      if (DryRunPanel.current === this) {
+        DryRunPanel.current = undefined;
+      }
+    });
+
+    panel.webview.onDidReceiveMessage((data) => {
+      switch (data.type) {
+        case "ready":
+          this.ready = true;
+          this.post();
+          break;
+        case "runForReal": {
+          const run = this.runForReal;
+          this.runForReal = undefined;
+          this.panel.dispose();
+          run?.();
+          break;
+        }
+        case "cancel":
+          this.panel.dispose();
+          break;
+      }
+    });
+  }
+
+  /** Shows the preview of `operationName`; `runForReal` runs it on the same repositories. */
+  public static show(
+    extensionUri: vscode.Uri,
+    operationName: string,
+    rows: DryRunRow[],
+    runForReal: () => void,
+  ): DryRunPanel {
+    if (!DryRunPanel.current) {
+      const panel = vscode.window.createWebviewPanel(
+        DryRunPanel.viewType,
+        "Multi Repo Git: Dry Run",
+        { viewColumn: vscode.ViewColumn.Beside, preserveFocus: false },
+        {
+          enableScripts: true,
+          retainContextWhenHidden: true,
+          localResourceRoots: [extensionUri],
+        },
+      );
+      DryRunPanel.current = new DryRunPanel(panel, extensionUri);
+    }
+    const current = DryRunPanel.current;
+    current.operationName = operationName;
+    current.rows = rows;
+    current.runForReal = runForReal;
+    current.panel.title = `Dry Run: ${operationName}`;
+    current.panel.reveal(undefined, false);
+    current.post();
+    return current;
+  }
+
+  private post() {
+    if (!this.ready) {
+      return;
+    }
+    this.panel.webview.postMessage({
+      type: "init",
+      operationName: this.operationName,
+      rows: this.rows,
+    });
+  }
+}
@@ -1,19 +1,76 @@
 import * as vscode from "vscode";
 import * as path from "node:path";
-import { simpleGit, SimpleGit } from "simple-git";
-import { getAllGitRepos } from "./repoDiscovery";
+import { RepoDiscoveryService, RepoKind } from "./repoDiscovery";
+import {
+  BulkOperationResult,
+  RepoOperationResult,
+  RepoOutputBuffer,
+  getConcurrency,
+  runWithConcurrency,
+  summarizeResults,
+} from "./bulkOperation";
+import { GitClient, GitOperationResult, GitOutput, PullStrategy } from "./gitClient";
 import { MultiRepoViewProvider } from "./multiRepoViewProvider";
+import { OperationResultsPanel } from "./operationResultsPanel";
+import { pickRepositories, shouldPromptForRepos } from "./repoSelection";
+import { RepoGroupManager } from "./repoGroups";
+import { RepoStatusStore } from "./repoStatus";
+import { DashboardProvider, MissingRepoTreeItem } from "./dashboardProvider";
+import { ChangeReviewProvider, REVIEW_SCHEME, ReviewFileItem, ReviewHunkItem } from "./changeReviewProvider";
+import { RefComparison, compareRefs, listRefs, pickRefsToCompare, summarizeComparisons } from "./compareRefs";
+import { ComparePanel } from "./comparePanel";
+import { StatusSummaryBar } from "./statusSummary";
+import { ManifestService, ResolvedManifestRepo, manifestGroups } from "./manifest";
+import { BACKUP_REF_PREFIX, backupId, createBackup, formatDiscardPreview, getDiscardPreview, listBackups, restoreBackup } from "./backups";
+import { SnapshotOptions, UndoHistory, RepoSnapshot, captureSnapshot, restoreSnapshot } from "./undoHistory";
+import {
+  CloneOptions,
+  CloneTarget,
+  cloneTargetsFromManifest,
+  pickCloneTargets,
+  promptCloneOptions,
+} from "./cloneRepositories";
+import {
+  DryRunMode,
+  DryRunOutcome,
+  predictCheckout,
+  predictCreateBranch,
+  predictCreateTag,
+  predictDeleteBranch,
+  predictDeleteTag,
+  predictDiscard,
+  predictPull,
+  predictResetWorkspace,
+  readRebaseAutoStash,
+  readRepoState,
+  refExists,
+  remoteBranches,
+} from "./dryRun";
+import { DryRunPanel, DryRunRow } from "./dryRunPanel";
+import { PreflightCondition, PreflightPlan, PreflightPolicy, runPreflight } from "./preflight";
+import { isAutoStashEnabled, withAutoStash } from "./autoStash";
+import { getPullStrategy, pickPullStrategy } from "./pullStrategy";
+import { RepoCommitChanges, commitMessageFor, readCommitChanges, stageSelection, validateCommitRequest } from "./commits";
+import { CommitPanel } from "./commitPanel";
+import { getCommitTypes } from "./commitMessage";
+import { PushChoice, PushTarget, formatPushSummary, getPushChoice, listRemotes, pickPushChoice, predictPushTo, pushOptionsFor, readPushTarget } from "./push";
 import {
   validateBranchName,
-  validateCommitMessage,
   validateTagName,
+  validateRefName,
   validateRemoteName,
   validateRemoteURL,
   validateStashMessage,
   validateCustomGitArgs,
 } from "./validators";
 
-export type RepoInfo = { name: string; path: string };
+export type RepoInfo = {
+  name: string;
+  path: string;
+  kind?: RepoKind;
+  // main working tree of a worktree, superproject of a submodule
+  parent?: string;
+};
 
 type GitPick = {
   label: string;
@@ -50,6 +107,18 @@ const PRESETS: GitPick[] = [
   },
 ];
 
+function showResultsPanel(): boolean {
+  return vscode.workspace
+    .getConfiguration("multiRepoGit")
+    .get<boolean>("showResultsPanel", true);
+}
+
+function isSafeModeEnabled(): boolean {
+  return vscode.workspace
+    .getConfiguration("multiRepoGit")
+    .get<boolean>("safeMode", true);
+}
+
 function createOutput(): vscode.OutputChannel {
   return vscode.window.createOutputChannel("Multi Repo Git");
 }
@@ -95,7 +164,40 @@ async function pickOrPromptGitArgs(): Promise<string[] | undefined> {
 
 export function activate(context: vscode.ExtensionContext) {
   const output = createOutput();
-  const provider = new MultiRepoViewProvider(context.extensionUri, output);
+  const gitClient = new GitClient(output);
+  const discovery = new RepoDiscoveryService();
+  const manifest = new ManifestService(output);
+  const groups = new RepoGroupManager(context.workspaceState);
+  const undoHistory = new UndoHistory(context.workspaceState);
+  const dryRunMode = new DryRunMode(context.workspaceState);
+  context.subscriptions.push(discovery, manifest, groups, dryRunMode);
+  const provider = new MultiRepoViewProvider(context.extensionUri, output, gitClient, groups, discovery);
+  const statusStore = new RepoStatusStore(gitClient, () => getDiscoveredRepos());
+  const dashboard = new DashboardProvider(statusStore, () => getAllRepos(), () => getMissingRepos());
+  const statusSummary = new StatusSummaryBar(statusStore);
+  const review = new ChangeReviewProvider(gitClient, statusStore, () => getAllRepos());
+  context.subscriptions.push(
+    statusStore,
+    dashboard,
+    statusSummary,
+    review,
+    groups.onDidChangeActiveGroup(() => {
+      dashboard.update();
+      review.update();
+    }),
+    discovery.onDidChangeRepositories(() => {
+      dashboard.update();
+      statusSummary.update();
+      review.update();
+    }),
+    manifest.onDidChange(() => applyManifest()),
+  );
+
+  const applyManifest = async () => {
+    groups.setManifestGroups(manifestGroups(await manifest.getEntries()));
+    dashboard.update();
+  };
+  applyManifest();
 
   // --- Git Extension Integration for Real-time Updates ---
   // Activate git extension asynchronously (non-blocking)
@@ -115,6 +217,7 @@ export function activate(context: vscode.ExtensionContext) {
       const subscribeToRepo = (repo: any) => {
         const listener = repo.state.onDidChange(() => {
           provider.updateRepoState(repo.rootUri.fsPath);
+          statusStore.invalidate(repo.rootUri.fsPath);
         });
         gitExtensionDisposables.push(listener);
       };
@@ -137,32 +240,111 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
-  async function getAllRepos(): Promise<RepoInfo[]> {
-    const repoPaths = await getAllGitRepos();
-    return repoPaths
-      .map((p) => ({ name: path.basename(p), path: p }))
+  // Manifest names take precedence over folder names
+  async function getDiscoveredRepos(): Promise<RepoInfo[]> {
+    const [repos, entries] = await Promise.all([discovery.getRepositories(), manifest.getEntries()]);
+    const names = new Map(entries.map((entry) => [path.normalize(entry.absolutePath), entry.name]));
+    return repos
+      .map((repo) => ({ name: names.get(path.normalize(repo.path)) ?? path.basename(repo.path), ...repo }))
       .sort((a, b) => a.name.localeCompare(b.name));
   }
 
-  // Tree View removed
+  // Manifest entries in the active group that have not been cloned
+  async function getMissingRepos(): Promise<ResolvedManifestRepo[]> {
+    const [repos, entries] = await Promise.all([discovery.getRepositories(), manifest.getEntries()]);
+    const present = new Set(repos.map((repo) => path.normalize(repo.path)));
+    const missing = entries.filter((entry) => !present.has(path.normalize(entry.absolutePath)));
+    const inScope = new Set(
+      groups.filter(missing.map((entry) => ({ name: entry.name, path: entry.absolutePath }))).map((repo) => repo.path),
+    );
+    return missing.filter((entry) => inScope.has(entry.absolutePath));
+  }
+
+  // Repositories in scope for bulk commands (the active group, if any)
+  async function getAllRepos(): Promise<RepoInfo[]> {
+    return groups.filter(await getDiscoveredRepos());
+  }
+
+  // Repositories a bulk command runs on: those in scope, narrowed with the
+  // repository picker when it applies. `undefined` when the picker is dismissed
+  // or nothing is selected
+  async function selectRepos(operationName: string, write: boolean): Promise<RepoInfo[] | undefined> {
+    const repoList = await getAllRepos();
+    if (repoList.length > 1 && shouldPromptForRepos(write)) {
+      const selection = await pickRepositories(context.workspaceState, repoList, operationName);
+      if (!selection) {
+        return undefined;
+      }
+      if (selection.length === 0) {
+        vscode.window.showInformationMessage("ℹ️ No repositories selected.");
+        return undefined;
+      }
+      return selection;
+    }
+    return repoList;
+  }
+
+  let lastResult: BulkOperationResult | undefined;
 
   async function runGitOperation(
     operationName: string,
     repos: RepoInfo[] | undefined,
-    action: (git: SimpleGit, repoName: string) => Promise<any>,
-  ) {
-    let repoList = repos;
-    repoList ??= await getAllRepos();
+    action: (client: GitClient, repo: RepoInfo, log: GitOutput) => Promise<GitOperationResult | void>,
+    // `undo: false` skips recording state for Undo Last Multi-Repo Operation;
+    // `confirm` gets the repositories preflight did not skip and can cancel the operation;
+    // `dryRun` predicts the outcome per repository while dry run is on
+    // (`false` runs for real regardless, as "Run for real" does);
+    // `preflight` decides which repositories to skip and aborts when it returns nothing
+    options: {
+      write?: boolean;
+      undo?: SnapshotOptions | false;
+      confirm?: (repos: RepoInfo[]) => Promise<boolean>;
+      preflight?: (repos: RepoInfo[]) => Promise<PreflightPlan | undefined>;
+      dryRun?: ((client: GitClient, repo: RepoInfo) => Promise<DryRunOutcome>) | false;
+    } = {},
+  ): Promise<BulkOperationResult | undefined> {
+    const undoable = options.undo !== false && (options.write ?? true);
+    const repoList = repos ?? (await selectRepos(operationName, options.write ?? true));
+    if (!repoList) {
+      return undefined;
+    }
     if (repoList.length === 0) {
       vscode.window.showWarningMessage("⚠️ No Git repositories found.");
-      return;
+      return undefined;
+    }
+    if (dryRunMode.enabled && (options.write ?? true) && options.dryRun !== false) {
+      const selected = repoList;
+      if (options.dryRun) {
+        await previewOperation(operationName, selected, options.dryRun, () =>
+          runGitOperation(operationName, selected, action, { ...options, dryRun: false }),
+        );
+        return undefined;
+      }
+      const choice = await vscode.window.showWarningMessage(
+        `Dry run is not available for ${operationName}.`,
+        { modal: true, detail: `Run it for real on ${selected.length} repo(s)?` },
+        "Run",
+      );
+      if (choice !== "Run") {
+        return undefined;
+      }
+    }
+    const preflight = options.preflight ? await options.preflight(repoList) : undefined;
+    if (options.preflight && !preflight) {
+      return undefined;
+    }
+    const skipped = preflight?.skip ?? new Map<string, string>();
+    const toRun = repoList.filter((repo) => !skipped.has(repo.path));
+    if (options.confirm && toRun.length > 0 && !(await options.confirm(toRun))) {
+      return undefined;
     }
 
     output.clear();
 
-    let successCount = 0;
-    let failureCount = 0;
-    const failedRepos: string[] = [];
+    const startedAt = Date.now();
+    const results = new Map<string, RepoOperationResult>();
+    const snapshots: RepoSnapshot[] = [];
+    let cancelled = false;
 
     await vscode.window.withProgress(
       {
@@ -170,44 +352,211 @@ export function activate(context: vscode.ExtensionContext) {
         title: `${operationName} on ${repoList.length} repo(s)`,
         cancellable: true,
       },
-      async (_progress, token) => {
-        for (const repo of repoList) {
-          if (token.isCancellationRequested) {
-            break;
-          }
-          const repoName = path.basename(repo.path);
-          output.appendLine(`\n=== ${repoName} » ${operationName} ===`);
-
-          try {
-            const git = simpleGit(repo.path);
-            await action(git, repoName);
-            successCount++;
-            output.appendLine(`✅ ${operationName} completed successfully`);
-          } catch (e: any) {
-            failureCount++;
-            failedRepos.push(repoName);
-            const errorMsg = e.message || String(e);
-            output.appendLine(`❌ Error: ${errorMsg}`);
-          }
+      async (progress, token) => {
+        const panel = showResultsPanel()
+          ? OperationResultsPanel.show(context.extensionUri, output)
+          : undefined;
+        panel?.start(operationName, repoList);
+        for (const [repoPath, reason] of skipped) {
+          panel?.update(repoPath, { state: "skipped", error: reason });
         }
+        let finished = 0;
+
+        await runWithConcurrency(
+          toRun,
+          getConcurrency(),
+          async (repo) => {
+            const repoName = repo.name;
+            const log = new RepoOutputBuffer();
+            log.appendLine(`\n=== ${repoName} » ${operationName} ===`);
+            progress.report({ message: `${repoName}…` });
+            panel?.update(repo.path, { state: "running" });
+            const repoStartedAt = Date.now();
+            const client = new GitClient(log, { token, recordProcesses: true });
+            const headBefore = await client.head(repo.path);
+            if (undoable) {
+              try {
+                snapshots.push(await captureSnapshot(client, repo, options.undo || {}));
+              } catch (e: any) {
+                log.appendLine(`⚠️ Could not record state for undo: ${e.message || e}`);
+              }
+            }
+
+            let error: string | undefined;
+            let message: string | undefined;
+            try {
+              const outcome = await action(client, repo, log);
+              message = outcome?.message;
+              if (outcome && !outcome.success) {
+                error = outcome.error || outcome.message;
+              }
+            } catch (e: any) {
+              error = e.message || String(e);
+            }
+            if (error === undefined) {
+              log.appendLine(`✅ ${operationName} completed successfully`);
+            } else {
+              log.appendLine(`❌ Error: ${error}`);
+            }
+
+            const result: RepoOperationResult = {
+              repo: repoName,
+              path: repo.path,
+              state: error === undefined ? "ok" : "failed",
+              success: error === undefined,
+              message: message
+                ?? (error === undefined ? `${operationName} completed` : `${operationName} failed`),
+              error,
+              stdout: client.record.stdout,
+              stderr: client.record.stderr,
+              exitCode: client.record.exitCode ?? (error === undefined ? 0 : undefined),
+              durationMs: Date.now() - repoStartedAt,
+              headBefore,
+              headAfter: await client.head(repo.path),
+            };
+            results.set(repo.path, result);
+
+            finished++;
+            progress.report({
+              increment: 100 / toRun.length,
+              message: `${repoName} (${finished}/${toRun.length})`,
+            });
+            panel?.update(repo.path, {
+              state: result.state,
+              durationMs: result.durationMs,
+              error,
+              output: log.toString(),
+            });
+            log.flushTo(output);
+          },
+          token,
+        );
+        cancelled = token.isCancellationRequested;
+        panel?.finish();
       },
     );
 
+    const bulkResult = summarizeResults(
+      operationName,
+      startedAt,
+      cancelled,
+      repoList.map(
+        (repo) =>
+          results.get(repo.path) ?? {
+            repo: repo.name,
+            path: repo.path,
+            state: "skipped",
+            success: false,
+            message: skipped.has(repo.path) ? `Skipped: ${skipped.get(repo.path)}` : `${operationName} cancelled`,
+            stdout: "",
+            stderr: "",
+            durationMs: 0,
+          },
+      ),
+    );
+    lastResult = bulkResult;
+    if (undoable && snapshots.length > 0) {
+      await undoHistory.save({
+        operation: operationName,
+        createdAt: bulkResult.startedAt,
+        repos: snapshots,
+      });
+    }
+
+    if (skipped.size > 0) {
+      output.appendLine(`\n⏭️ Skipped ${skipped.size} repo(s) after preflight checks:`);
+      for (const repo of repoList.filter((r) => skipped.has(r.path))) {
+        output.appendLine(`   ${repo.name}: ${skipped.get(repo.path)}`);
+      }
+    }
+    if (bulkResult.cancelled && bulkResult.skippedCount > skipped.size) {
+      output.appendLine(
+        `\n⚠️ ${operationName} cancelled: ${bulkResult.skippedCount - skipped.size} repo(s) not processed.`,
+      );
+    }
+
+    const { successCount, failureCount } = bulkResult;
+    const skippedNote = skipped.size > 0 ? `, ${skipped.size} skipped (see Output)` : "";
+    const failedList = bulkResult.repos
+      .filter((r) => r.state === "failed")
+      .map((r) => r.repo)
+      .join(", ");
     if (failureCount === 0) {
       vscode.window.showInformationMessage(
-        `✅ ${operationName} completed successfully on ${successCount} repo(s)`
+        `✅ ${operationName} completed successfully on ${successCount} repo(s)${skippedNote}`
       );
     } else if (successCount === 0) {
-      const failedList = failedRepos.join(", ");
       vscode.window.showErrorMessage(
-        `❌ ${operationName} failed on all ${failureCount} repo(s): ${failedList}. Check Output for details.`
+        `❌ ${operationName} failed on all ${failureCount} repo(s): ${failedList}${skippedNote}. Check Output for details.`
       );
     } else {
-      const failedList = failedRepos.join(", ");
       vscode.window.showWarningMessage(
-        `⚠️ ${operationName}: ${successCount} ✅ ${failureCount} ❌ (${failedList}). Check Output for details.`
+        `⚠️ ${operationName}: ${successCount} ✅ ${failureCount} ❌ (${failedList})${skippedNote}. Check Output for details.`
       );
     }
+
+    return bulkResult;
+  }
+
+  const exportLastResult = async () => {
+    if (!lastResult) {
+      vscode.window.showInformationMessage("ℹ️ No multi-repo operation has run yet.");
+      return;
+    }
+    const defaultName = `multi-repo-${lastResult.operation.replace(/[^a-zA-Z0-9]+/g, "-").toLowerCase()}.json`;
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: vscode.workspace.workspaceFolders?.[0]
+        ? vscode.Uri.joinPath(vscode.workspace.workspaceFolders[0].uri, defaultName)
+        : undefined,
+      filters: { JSON: ["json"] },
+      saveLabel: "Export",
+    });
+    if (!target) {return;}
+
+    await vscode.workspace.fs.writeFile(
+      target,
+      Buffer.from(JSON.stringify(lastResult, null, 2), "utf-8"),
+    );
+    vscode.window.showInformationMessage(`✅ Exported results to ${path.basename(target.fsPath)}`);
+  };
+
+  // Predicts what an operation would do in each repository and shows it in
+  // the dry run panel; nothing is changed until "Run for real"
+  async function previewOperation(
+    operationName: string,
+    repos: RepoInfo[],
+    predict: (client: GitClient, repo: RepoInfo) => Promise<DryRunOutcome>,
+    runForReal: () => Promise<unknown>,
+  ): Promise<void> {
+    const rows: DryRunRow[] = new Array(repos.length);
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Dry run: ${operationName} on ${repos.length} repo(s)`,
+        cancellable: true,
+      },
+      (_progress, token) =>
+        runWithConcurrency(
+          repos,
+          getConcurrency(),
+          async (repo, index) => {
+            let outcome: DryRunOutcome;
+            try {
+              outcome = await predict(new GitClient(output, { token }), repo);
+            } catch (e: any) {
+              outcome = { verdict: "fail", message: e.message || String(e) };
+            }
+            rows[index] = { name: repo.name, path: repo.path, ...outcome };
+          },
+          token,
+        ),
+    );
+    const predicted = rows.filter((row) => row !== undefined);
+    output.appendLine(`\n=== Dry run » ${operationName} (nothing was changed) ===`);
+    for (const row of predicted) {
+      output.appendLine(`${row.verdict === "fail" ? "❌" : row.verdict === "change" ? "✏️" : "✅"} ${row.name}: ${row.message}`);
+    }
+    DryRunPanel.show(context.extensionUri, operationName, predicted, () => void runForReal());
   }
 
   // --- Command Implementations ---
@@ -218,103 +567,292 @@ export function activate(context: vscode.ExtensionContext) {
     await runGitOperation(
       `git ${args.join(" ")}`,
       repos,
-      async (git, repoName) => {
-        const res = await git.raw(args);
-        if (res) {
-          if (!res.endsWith('\n')) {
-            output.appendLine(res);
-          } else {
-            output.append(res);
-          }
-        }
-        output.appendLine(`=== ${repoName} » Done ===`);
-      },
+      (client, repo) => client.raw(repo.path, args),
+      { undo: { untracked: true } },
     );
   };
 
   const runStatus = async (repos?: RepoInfo[]) => {
-    await runGitOperation("Status", repos, async (git) => {
-      const res = await git.status();
-      output.appendLine(`On branch ${res.current}`);
-      if (res.isClean()) {
-        output.appendLine("nothing to commit, working tree clean");
-      } else {
-        res.files.forEach((f) =>
-          output.appendLine(`${f.working_dir} ${f.path}`),
-        );
-      }
-    });
+    await runGitOperation(
+      "Status",
+      repos,
+      (client, repo) => client.status(repo.path),
+      { write: false },
+    );
   };
 
   const runFetch = async (repos?: RepoInfo[]) => {
-    await runGitOperation("Fetch", repos, async (git) => {
-      await git.fetch(["--all", "--prune"]);
-      output.appendLine("Fetch completed.");
-    });
+    await runGitOperation(
+      "Fetch",
+      repos,
+      (client, repo) => client.fetch(repo.path),
+      { write: false },
+    );
   };
 
-  const runPull = async (repos?: RepoInfo[]) => {
-    await runGitOperation("Pull (rebase)", repos, async (git) => {
-      await git.pull(undefined, undefined, { "--rebase": null });
-      output.appendLine("Pull completed.");
-    });
+  // `strategy` overrides the configured one (per group or default) for this run
+  const runPull = async (repos?: RepoInfo[], strategy?: PullStrategy) => {
+    const autoStash = isAutoStashEnabled();
+    let plan: PreflightPlan | undefined;
+    await runGitOperation(
+      strategy ? `Pull (${strategy})` : "Pull",
+      repos,
+      (client, repo) => {
+        const pull = () => client.pull(repo.path, strategy ?? getPullStrategy(repo.path));
+        return autoStash || plan?.autoStash.has(repo.path)
+          ? withAutoStash(client, repo.path, "Pull", pull)
+          : pull();
+      },
+      {
+        preflight: async (selected) =>
+          (plan = await runPreflight(
+            gitClient,
+            selected,
+            "pull",
+            autoStash ? { dirtyTree: "autoStash" } : {},
+            (repo) => strategy ?? getPullStrategy(repo.path),
+          )),
+        dryRun: async (client, repo) => {
+          const repoStrategy = strategy ?? getPullStrategy(repo.path);
+          return predictPull(
+            await readRepoState(client, repo.path),
+            autoStash || (repoStrategy === "rebase" && (await readRebaseAutoStash(client, repo.path))),
+            repoStrategy,
+          );
+        },
+      },
+    );
   };
 
-  const runPush = async (repos?: RepoInfo[]) => {
-    await runGitOperation("Push", repos, async (git) => {
-      await git.push();
-      output.appendLine("Push completed.");
-    });
+  const runPullWithStrategy = async () => {
+    const strategy = await pickPullStrategy();
+    if (strategy) {
+      await runPull(undefined, strategy);
+    }
   };
 
+  // `choice` comes from Push All With Options…; otherwise the settings apply.
+  // The targets read for the pre-push summary are the ones pushed to
+  const runPush = async (repos?: RepoInfo[], choice: PushChoice = getPushChoice()) => {
+    const targets = new Map<string, PushTarget>();
+    const overrides: Partial<Record<PreflightCondition, PreflightPolicy>> = {};
+    if (choice.setUpstream || choice.remote) {
+      overrides.noUpstream = "proceed";
+    }
+    if (choice.forceWithLease) {
+      overrides.diverged = "proceed";
+    }
+    await runGitOperation(
+      choice.forceWithLease ? "Force Push (with lease)" : "Push",
+      repos,
+      async (client, repo) => {
+        const target = targets.get(repo.path) ?? (await readPushTarget(client, repo.path, choice.remote));
+        if (!target.branch || !target.remote) {
+          return { success: false, message: "Push failed", error: predictPushTo(target, choice).message };
+        }
+        return client.push(repo.path, pushOptionsFor(target, choice));
+      },
+      {
+        confirm: (selected) => confirmPush(selected, choice, targets),
+        preflight: (selected) => runPreflight(gitClient, selected, "push", overrides),
+        dryRun: async (client, repo) => predictPushTo(await readPushTarget(client, repo.path, choice.remote), choice),
+      },
+    );
+  };
+
+  const runPushWithOptions = async () => {
+    const remotes = new Set<string>();
+    await Promise.all(
+      (await getAllRepos()).map(async (repo) => {
+        for (const remote of await listRemotes(gitClient, repo.path).catch(() => [])) {
+          remotes.add(remote);
+        }
+      }),
+    );
+    const choice = await pickPushChoice([...remotes].sort());
+    if (choice) {
+      await runPush(undefined, choice);
+    }
+  };
+
+  // Clean repositories are left out; the commit panel picks the files and
+  // message of each repository, then the commit runs as a bulk operation
   const runCommit = async (repos?: RepoInfo[]) => {
-    const message = await vscode.window.showInputBox({
-      prompt: "Enter commit message",
+    const candidates = repos ?? (await getAllRepos());
+    if (candidates.length === 0) {
+      vscode.window.showWarningMessage("⚠️ No Git repositories found.");
+      return;
+    }
+    const changes: RepoCommitChanges[] = [];
+    await runWithConcurrency(candidates, getConcurrency(), async (repo) => {
+      try {
+        const change = await readCommitChanges(gitClient, repo);
+        if (change.files.length > 0) {
+          changes.push(change);
+        }
+      } catch (e: any) {
+        output.appendLine(`⚠️ ${repo.name}: could not read status: ${e.message || e}`);
+      }
     });
-    if (!message) {return;}
-
-    const validation = validateCommitMessage(message);
-    if (!validation.valid) {
-      vscode.window.showErrorMessage(`❌ ${validation.error}`);
+    if (changes.length === 0) {
+      vscode.window.showInformationMessage(`ℹ️ Nothing to commit: ${candidates.length} repo(s) are clean.`);
       return;
     }
+    changes.sort((a, b) => a.repo.name.localeCompare(b.repo.name));
+    const byPath = new Map(changes.map((change) => [change.repo.path, change]));
 
-    await runGitOperation("Commit", repos, async (git) => {
-      await git.commit(message);
-      output.appendLine(`Committed: "${message}"`);
+    CommitPanel.show(context.extensionUri, changes, candidates.length - changes.length, async (request) => {
+      const error = validateCommitRequest(request, changes, getCommitTypes());
+      if (error) {
+        return error;
+      }
+      const selected = new Map(request.repos.map((repo) => [repo.path, repo.files]));
+      void runGitOperation(
+        request.options.amend ? "Amend Commit" : "Commit",
+        changes.filter((change) => selected.has(change.repo.path)).map((change) => change.repo),
+        async (client, repo) => {
+          await stageSelection(client, repo.path, byPath.get(repo.path)?.files ?? [], selected.get(repo.path) ?? []);
+          const message = commitMessageFor(request, repo.path, byPath.get(repo.path)?.ticket);
+          return client.commit(repo.path, message, request.options);
+        },
+      );
+      return undefined;
     });
   };
 
   const runStageAll = async (repos?: RepoInfo[]) => {
-    await runGitOperation("Stage All", repos, async (git) => {
-      await git.add(".");
-      output.appendLine("Staged all changes.");
-    });
+    await runGitOperation("Stage All", repos, (client, repo) =>
+      client.stageAll(repo.path),
+    );
   };
 
   const runUnstageAll = async (repos?: RepoInfo[]) => {
-    await runGitOperation("Unstage All", repos, async (git) => {
-      await git.reset(["HEAD"]);
-      output.appendLine("Unstaged all changes.");
-    });
+    await runGitOperation("Unstage All", repos, (client, repo) =>
+      client.unstageAll(repo.path),
+    );
   };
 
-  const runDiscard = async (repos?: RepoInfo[]) => {
+  // Pre-push summary of what goes where; force pushes are confirmed with their own button
+  const confirmPush = async (repos: RepoInfo[], choice: PushChoice, targets: Map<string, PushTarget>) => {
+    const rows = await Promise.all(
+      repos.map(async (repo) => {
+        try {
+          const target = await readPushTarget(gitClient, repo.path, choice.remote);
+          targets.set(repo.path, target);
+          return { name: repo.name, outcome: predictPushTo(target, choice), commits: target.ahead };
+        } catch (e: any) {
+          return { name: repo.name, outcome: { verdict: "fail", message: e.message || String(e) } as DryRunOutcome, commits: 0 };
+        }
+      }),
+    );
+    const pushing = rows.filter((row) => row.outcome.verdict === "change");
+    if (pushing.length === 0) {
+      const failures = rows.filter((row) => row.outcome.verdict === "fail");
+      if (failures.length === 0) {
+        vscode.window.showInformationMessage(`ℹ️ Nothing to push in ${repos.length} repo(s).`);
+      } else {
+        vscode.window.showWarningMessage(
+          `⚠️ Nothing can be pushed. ${failures.map((row) => `${row.name}: ${row.outcome.message}`).sort().join("; ")}`,
+        );
+      }
+      return false;
+    }
+    const commits = pushing.reduce((sum, row) => sum + row.commits, 0);
+    const action = choice.forceWithLease ? "Force Push" : "Push";
+    const question = choice.forceWithLease
+      ? `🚨 Force push ${commits} commit(s) from ${pushing.length} repo(s)?`
+      : `Push ${commits} commit(s) from ${pushing.length} repo(s)?`;
+    const lease = choice.forceWithLease
+      ? "\n\nRemote commits missing from your branches are replaced. --force-with-lease refuses when a remote branch changed since the last fetch."
+      : "";
     const confirm = await vscode.window.showWarningMessage(
-      "🚨 Discard ALL uncommitted changes? This cannot be undone!",
-      { modal: true },
+      question,
+      { modal: true, detail: `${formatPushSummary(rows)}${lease}` },
+      action,
+    );
+    return confirm === action;
+  };
+
+  // Lists the uncommitted changes a destructive command throws away in each
+  // repository and asks for confirmation
+  const confirmDestructive = async (repos: RepoInfo[], question: string, action: string, safeMode: boolean) => {
+    const previews = await Promise.all(
+      repos.map((repo) => getDiscardPreview(gitClient, repo).catch(() => undefined)),
+    );
+    const listing = formatDiscardPreview(previews.filter((preview) => preview !== undefined));
+    const recovery = safeMode
+      ? "Changes are backed up first and can be brought back with Restore Backup… or Undo Last Multi-Repo Operation (ignored files are not backed up)."
+      : "Undo Last Multi-Repo Operation can restore the discarded changes (ignored files are not recorded).";
+    const confirm = await vscode.window.showWarningMessage(
+      `🚨 ${question}`,
+      { modal: true, detail: `${listing || "No uncommitted changes."}\n\n${recovery}` },
+      action,
+    );
+    if (confirm !== action) {
+      vscode.window.showInformationMessage(`ℹ️ ${action} operation cancelled.`);
+      return false;
+    }
+    return true;
+  };
+
+  // Discards one file or hunk from the Review Changes view, backing up the repository first in safe mode
+  const discardReviewed = async (node: ReviewFileItem | ReviewHunkItem) => {
+    const safeMode = isSafeModeEnabled();
+    const what = node instanceof ReviewHunkItem ? `this change to ${node.file.path}` : node.file.path;
+    const confirm = await vscode.window.showWarningMessage(
+      `🚨 Discard ${what} in ${node.repo.name}?`,
+      {
+        modal: true,
+        detail: safeMode
+          ? "The repository's uncommitted changes are backed up first and can be brought back with Restore Backup…"
+          : "This cannot be undone.",
+      },
       "Discard",
     );
     if (confirm !== "Discard") {
-      vscode.window.showInformationMessage("ℹ️ Discard operation cancelled.");
       return;
     }
+    if (safeMode) {
+      try {
+        await createBackup(gitClient, node.repo.path, backupId(new Date()), "Discard Changes");
+      } catch (e: any) {
+        vscode.window.showErrorMessage(`❌ Backup failed in ${node.repo.name}; nothing was discarded: ${e.message || e}`);
+        return;
+      }
+    }
+    await review.discard(node);
+  };
 
-    await runGitOperation("Discard Changes", repos, async (git) => {
-      await git.reset(["--hard", "HEAD"]);
-      await git.clean("f", ["-d"]);
-      output.appendLine("Discarded all changes.");
-    });
+  // Safe mode: nothing is discarded in a repository whose backup failed
+  const backUpChanges = async (client: GitClient, repo: RepoInfo, log: GitOutput, id: string, operation: string) => {
+    try {
+      const backup = await createBackup(client, repo.path, id, operation);
+      if (backup) {
+        log.appendLine(`💾 Backed up uncommitted changes to ${BACKUP_REF_PREFIX}${id} (${backup.slice(0, 8)})`);
+      }
+      return undefined;
+    } catch (e: any) {
+      return { success: false, message: "Backup failed; nothing was discarded", error: e.message || String(e) };
+    }
+  };
+
+  const runDiscard = async (repos?: RepoInfo[]) => {
+    const safeMode = isSafeModeEnabled();
+    const id = backupId(new Date());
+    await runGitOperation(
+      "Discard Changes",
+      repos,
+      async (client, repo, log) => {
+        const backupFailure = safeMode && (await backUpChanges(client, repo, log, id, "Discard Changes"));
+        return backupFailure || client.discard(repo.path);
+      },
+      {
+        confirm: (selected) =>
+          confirmDestructive(selected, "Discard ALL uncommitted changes?", "Discard", safeMode),
+        undo: { untracked: true },
+        dryRun: async (client, repo) => predictDiscard(await readRepoState(client, repo.path)),
+      },
+    );
   };
 
   const runStash = async (repos?: RepoInfo[]) => {
@@ -330,28 +868,21 @@ export function activate(context: vscode.ExtensionContext) {
       }
     }
 
-    await runGitOperation("Stash", repos, async (git) => {
-      if (message) {
-        await git.stash(["push", "-m", message]);
-      } else {
-        await git.stash(["push"]);
-      }
-      output.appendLine("Stashed changes.");
-    });
+    await runGitOperation("Stash", repos, (client, repo) =>
+      client.stash(repo.path, message),
+    );
   };
 
   const runPopStash = async (repos?: RepoInfo[]) => {
-    await runGitOperation("Pop Stash", repos, async (git) => {
-      await git.stash(["pop"]);
-      output.appendLine("Popped stash.");
-    });
+    await runGitOperation("Pop Stash", repos, (client, repo) =>
+      client.popStash(repo.path),
+    );
   };
 
+  // The repositories are chosen first so the branch list only offers their branches
   const runCheckout = async (repos?: RepoInfo[]) => {
-    let targetRepos = repos;
-    if (!targetRepos) {
-      targetRepos = await getAllRepos();
-    }
+    const targetRepos = repos ?? (await selectRepos("Checkout", true));
+    if (!targetRepos) {return;}
 
     if (targetRepos.length === 0) {
       vscode.window.showWarningMessage("No Git repositories found.");
@@ -367,10 +898,9 @@ export function activate(context: vscode.ExtensionContext) {
       },
       async () => {
         await Promise.all(
-          targetRepos!.map(async (repo) => {
+          targetRepos.map(async (repo) => {
             try {
-              const git = simpleGit(repo.path);
-              const branches = await git.branch(["-a"]); // Fetch all branches including remotes
+              const branches = await gitClient.branches(repo.path, ["-a"]); // Fetch all branches including remotes
               branches.all.forEach((b) => {
                 let name = b;
                 if (name.startsWith("remotes/")) {
@@ -397,10 +927,24 @@ export function activate(context: vscode.ExtensionContext) {
 
     if (!pick) {return;}
 
-    await runGitOperation(`Checkout ${pick}`, targetRepos, async (git) => {
-      await git.checkout(pick);
-      output.appendLine(`Checked out ${pick}.`);
-    });
+    const autoStash = isAutoStashEnabled();
+    await runGitOperation(
+      `Checkout ${pick}`,
+      targetRepos,
+      (client, repo) =>
+        autoStash
+          ? withAutoStash(client, repo.path, `Checkout ${pick}`, () => client.checkout(repo.path, pick))
+          : client.checkout(repo.path, pick),
+      {
+        dryRun: async (client, repo) =>
+          predictCheckout(
+            await readRepoState(client, repo.path),
+            pick,
+            await refExists(client, repo.path, `refs/heads/${pick}`),
+            await remoteBranches(client, repo.path, pick),
+          ),
+      },
+    );
   };
 
   const runCreateBranch = async (repos?: RepoInfo[]) => {
@@ -415,10 +959,19 @@ export function activate(context: vscode.ExtensionContext) {
       return;
     }
 
-    await runGitOperation(`Create Branch ${branch}`, repos, async (git) => {
-      await git.checkoutLocalBranch(branch);
-      output.appendLine(`Created and checked out ${branch}.`);
-    });
+    await runGitOperation(
+      `Create Branch ${branch}`,
+      repos,
+      (client, repo) => client.createBranch(repo.path, branch),
+      {
+        dryRun: async (client, repo) =>
+          predictCreateBranch(
+            await readRepoState(client, repo.path),
+            branch,
+            await refExists(client, repo.path, `refs/heads/${branch}`),
+          ),
+      },
+    );
   };
 
   const runDeleteBranch = async (repos?: RepoInfo[]) => {
@@ -433,10 +986,20 @@ export function activate(context: vscode.ExtensionContext) {
       return;
     }
 
-    await runGitOperation(`Delete Branch ${branch}`, repos, async (git) => {
-      await git.deleteLocalBranch(branch, true);
-      output.appendLine(`Deleted branch ${branch}.`);
-    });
+    await runGitOperation(
+      `Delete Branch ${branch}`,
+      repos,
+      (client, repo) => client.deleteBranch(repo.path, branch),
+      {
+        undo: { deletedBranches: [branch] },
+        dryRun: async (client, repo) =>
+          predictDeleteBranch(
+            await readRepoState(client, repo.path),
+            branch,
+            await refExists(client, repo.path, `refs/heads/${branch}`),
+          ),
+      },
+    );
   };
 
   const runCreateTag = async (repos?: RepoInfo[]) => {
@@ -449,10 +1012,12 @@ export function activate(context: vscode.ExtensionContext) {
       return;
     }
 
-    await runGitOperation(`Create Tag ${tag}`, repos, async (git) => {
-      await git.addTag(tag);
-      output.appendLine(`Created tag ${tag}.`);
-    });
+    await runGitOperation(
+      `Create Tag ${tag}`,
+      repos,
+      (client, repo) => client.createTag(repo.path, tag),
+      { dryRun: async (client, repo) => predictCreateTag(tag, await refExists(client, repo.path, `refs/tags/${tag}`)) },
+    );
   };
 
   const runDeleteTag = async (repos?: RepoInfo[]) => {
@@ -467,10 +1032,12 @@ export function activate(context: vscode.ExtensionContext) {
       return;
     }
 
-    await runGitOperation(`Delete Tag ${tag}`, repos, async (git) => {
-      await git.tag(["-d", tag]);
-      output.appendLine(`Deleted tag ${tag}.`);
-    });
+    await runGitOperation(
+      `Delete Tag ${tag}`,
+      repos,
+      (client, repo) => client.deleteTag(repo.path, tag),
+      { dryRun: async (client, repo) => predictDeleteTag(tag, await refExists(client, repo.path, `refs/tags/${tag}`)) },
+    );
   };
 
   const runCreateRemote = async (repos?: RepoInfo[]) => {
@@ -495,10 +1062,9 @@ export function activate(context: vscode.ExtensionContext) {
       return;
     }
 
-    await runGitOperation(`Add Remote ${name}`, repos, async (git) => {
-      await git.addRemote(name, url);
-      output.appendLine(`Added remote ${name}.`);
-    });
+    await runGitOperation(`Add Remote ${name}`, repos, (client, repo) =>
+      client.addRemote(repo.path, name, url),
+    );
   };
 
   const runDeleteRemote = async (repos?: RepoInfo[]) => {
@@ -513,102 +1079,331 @@ export function activate(context: vscode.ExtensionContext) {
       return;
     }
 
-    await runGitOperation(`Delete Remote ${name}`, repos, async (git) => {
-      await git.removeRemote(name);
-      output.appendLine(`Deleted remote ${name}.`);
-    });
+    await runGitOperation(`Delete Remote ${name}`, repos, (client, repo) =>
+      client.deleteRemote(repo.path, name),
+    );
   };
 
+  // With auto-stash, uncommitted work survives the reset: it is stashed
+  // before the discard and re-applied after the pull
   const runResetWorkspace = async (repos?: RepoInfo[]) => {
-    const confirm = await vscode.window.showWarningMessage(
-      "🚨 Reset workspace? This will discard all changes, fetch and pull. This cannot be undone!",
-      { modal: true },
-      "Reset",
+    const autoStash = isAutoStashEnabled();
+    const safeMode = isSafeModeEnabled() && !autoStash;
+    const id = backupId(new Date());
+    await runGitOperation("Reset Workspace", repos, async (client, repo, log) => {
+      const backupFailure = safeMode && (await backUpChanges(client, repo, log, id, "Reset Workspace"));
+      if (backupFailure) {
+        return backupFailure;
+      }
+      const reset = async (): Promise<GitOperationResult> => {
+        const steps = [
+          () => client.discard(repo.path),
+          () => client.fetch(repo.path),
+          () => client.pull(repo.path, getPullStrategy(repo.path)),
+        ];
+        for (const step of steps) {
+          const result = await step();
+          if (!result.success) {
+            return result;
+          }
+        }
+        return { success: true, message: "Workspace reset" };
+      };
+      return autoStash ? withAutoStash(client, repo.path, "Reset Workspace", reset) : reset();
+    }, {
+      undo: { untracked: true },
+      confirm: async (selected) => {
+        if (!autoStash) {
+          return confirmDestructive(selected, "Reset workspace? This will discard all changes, fetch and pull.", "Reset", safeMode);
+        }
+        const confirm = await vscode.window.showWarningMessage(
+          "Reset workspace? Uncommitted changes are stashed, then the repositories are reset, fetched and pulled, and the changes are re-applied.",
+          { modal: true },
+          "Reset",
+        );
+        if (confirm !== "Reset") {
+          vscode.window.showInformationMessage("ℹ️ Reset operation cancelled.");
+          return false;
+        }
+        return true;
+      },
+      dryRun: async (client, repo) =>
+        predictResetWorkspace(await readRepoState(client, repo.path), autoStash, getPullStrategy(repo.path)),
+    });
+  };
+
+  // Clones in parallel, then makes the new repositories visible: registered
+  // with discovery, and added as workspace folders when outside all of them
+  const runClones = async (targets: CloneTarget[], options: CloneOptions = {}) => {
+    const byPath = new Map(targets.map((target) => [target.path, target]));
+    const result = await runGitOperation(
+      "Clone",
+      targets.map((target) => ({ name: target.name, path: target.path })),
+      (client, repo) => {
+        const target = byPath.get(repo.path)!;
+        return client.clone(repo.path, target.url, {
+          branch: options.branch ?? target.branch,
+          depth: options.depth,
+        });
+      },
+      { undo: false },
     );
-    if (confirm !== "Reset") {
-      vscode.window.showInformationMessage("ℹ️ Reset operation cancelled.");
+    if (!result) {return;}
+
+    const cloned = result.repos.filter((repo) => repo.state === "ok").map((repo) => repo.path);
+    await Promise.all(cloned.map((repoPath) => discovery.addRepository(repoPath)));
+    const outside = cloned.filter((repoPath) => !vscode.workspace.getWorkspaceFolder(vscode.Uri.file(repoPath)));
+    if (outside.length > 0) {
+      vscode.workspace.updateWorkspaceFolders(
+        vscode.workspace.workspaceFolders?.length ?? 0,
+        0,
+        ...outside.map((repoPath) => ({ uri: vscode.Uri.file(repoPath) })),
+      );
+    }
+  };
+
+  const runCloneRepositories = async () => {
+    const targets = await pickCloneTargets(() => getMissingRepos());
+    if (!targets) {return;}
+    const options = await promptCloneOptions();
+    if (!options) {return;}
+    await runClones(targets, options);
+  };
+
+  const runCloneMissing = async (entries?: ResolvedManifestRepo[]) => {
+    if (!entries) {
+      const missing = await getMissingRepos();
+      if (missing.length === 0) {
+        vscode.window.showInformationMessage("✅ Every repository in the manifest is present.");
+        return;
+      }
+      const picks = await vscode.window.showQuickPick(
+        missing.map((entry) => ({
+          label: entry.name,
+          description: vscode.workspace.asRelativePath(entry.absolutePath),
+          detail: entry.url ?? "No URL in manifest",
+          picked: !!entry.url,
+          entry,
+        })),
+        { canPickMany: true, placeHolder: "Select missing repositories to clone" },
+      );
+      if (!picks || picks.length === 0) {return;}
+      entries = picks.map((pick) => pick.entry);
+    }
+
+    const withoutUrl = entries.filter((entry) => !entry.url);
+    if (withoutUrl.length > 0) {
+      vscode.window.showWarningMessage(
+        `⚠️ No URL in the manifest for ${withoutUrl.map((entry) => entry.name).join(", ")}`,
+      );
+    }
+    const targets = cloneTargetsFromManifest(entries);
+    if (targets.length > 0) {
+      await runClones(targets);
+    }
+  };
+
+  const runUndo = async () => {
+    const record = undoHistory.last;
+    if (!record) {
+      vscode.window.showInformationMessage("ℹ️ There is no multi-repo operation to undo.");
       return;
     }
+    const confirm = await vscode.window.showWarningMessage(
+      `Undo "${record.operation}" (${new Date(record.createdAt).toLocaleString()}) on ${record.repos.length} repo(s)?`,
+      {
+        modal: true,
+        detail: "Each repository returns to the branch and commit it was on before the operation, deleted branches are recreated and uncommitted changes are re-applied. Local changes made since are kept; repositories where they would be overwritten are left alone and reported.",
+      },
+      "Undo",
+    );
+    if (confirm !== "Undo") {return;}
+
+    const byPath = new Map(record.repos.map((snapshot) => [snapshot.path, snapshot]));
+    const result = await runGitOperation(
+      `Undo ${record.operation}`,
+      record.repos.map((snapshot) => ({ name: snapshot.name, path: snapshot.path })),
+      (client, repo) => restoreSnapshot(client, byPath.get(repo.path)!),
+      { undo: false },
+    );
+    if (!result) {return;}
 
-    let repoList = repos;
-    repoList ??= await getAllRepos();
-    if (repoList.length === 0) {
-      vscode.window.showWarningMessage("⚠️ No Git repositories found.");
+    // Keep what could not be rolled back so the undo can be retried
+    const failed = result.repos.filter((repo) => repo.state !== "ok");
+    await undoHistory.save({
+      ...record,
+      repos: record.repos.filter((snapshot) => failed.some((repo) => repo.path === snapshot.path)),
+    });
+    if (failed.length > 0) {
+      output.appendLine(
+        `\n⚠️ Could not roll back: ${failed.map((repo) => repo.repo).join(", ")}. Resolve the errors above and run Undo again.`,
+      );
+    }
+  };
+
+  const runRestoreBackup = async () => {
+    const sets = await listBackups(gitClient, await getDiscoveredRepos());
+    if (sets.length === 0) {
+      vscode.window.showInformationMessage("ℹ️ No backups found.");
       return;
     }
+    const pick = await vscode.window.showQuickPick(
+      sets.map((set) => ({
+        label: `$(archive) ${set.operation}`,
+        description: set.createdAt?.toLocaleString() ?? set.id,
+        detail: set.repos.map(({ repo }) => repo.name).join(", "),
+        set,
+      })),
+      { placeHolder: "Select a backup to re-apply", matchOnDetail: true },
+    );
+    if (!pick) {return;}
 
-    output.clear();
+    const { id, repos } = pick.set;
+    const commits = new Map(repos.map(({ repo, commit }) => [repo.path, commit]));
+    await runGitOperation(
+      "Restore Backup",
+      repos.map(({ repo }) => repo),
+      (client, repo) => restoreBackup(client, repo.path, id, commits.get(repo.path)!),
+    );
+  };
 
-    let successCount = 0;
-    let failureCount = 0;
+  const showRepoDiff = async (repo: RepoInfo) => {
+    try {
+      const diff = await gitClient.run(repo.path, "query", (git) => git.diff(["HEAD"]), { record: false });
+      if (!diff.trim()) {
+        vscode.window.showInformationMessage(`ℹ️ ${repo.name} has no tracked changes.`);
+        return;
+      }
+      const doc = await vscode.workspace.openTextDocument({ content: diff, language: "diff" });
+      await vscode.window.showTextDocument(doc, { preview: true });
+    } catch (e: any) {
+      vscode.window.showErrorMessage(`❌ ${repo.name}: ${e.message || e}`);
+    }
+  };
+
+  const rescanRepositories = async () => {
+    const repos = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Window, title: "Scanning for Git repositories" },
+      () => discovery.rescan(),
+    );
+    vscode.window.showInformationMessage(`✅ Found ${repos.length} repositories`);
+  };
 
+  // Read-only: compares two refs in every repository in scope and shows the
+  // result in the compare panel, which can run it again or swap the refs
+  const compareBranches = async (base: string, compare: string, repos: RepoInfo[]) => {
+    const rows: RefComparison[] = new Array(repos.length);
     await vscode.window.withProgress(
       {
         location: vscode.ProgressLocation.Notification,
-        title: `Resetting workspace on ${repoList.length} repo(s)`,
+        title: `Comparing ${compare} with ${base} in ${repos.length} repo(s)`,
         cancellable: true,
       },
-      async (_progress, token) => {
-        for (const repo of repoList) {
-          if (token.isCancellationRequested) {
-            break;
-          }
-          const repoName = path.basename(repo.path);
-          output.appendLine(`\n=== ${repoName} » Reset Workspace ===`);
-
-          try {
-            const git = simpleGit(repo.path);
-
-            output.appendLine("Discarding changes...");
-            await git.reset(["--hard", "HEAD"]);
-            await git.clean("f", ["-d"]);
-            output.appendLine("✅ Changes discarded");
-
-            output.appendLine("Fetching...");
-            await git.fetch(["--all", "--prune"]);
-            output.appendLine("✅ Fetch completed");
-
-            output.appendLine("Pulling...");
-            await git.pull(undefined, undefined, { "--rebase": null });
-            output.appendLine("✅ Pull completed");
-
-            output.appendLine(`=== ${repoName} » Reset completed ===`);
-            successCount++;
-          } catch (e: any) {
-            failureCount++;
-            const errorMsg = e.message || String(e);
-            output.appendLine(`❌ Error: ${errorMsg}`);
-          }
+      (_progress, token) =>
+        runWithConcurrency(
+          repos,
+          getConcurrency(),
+          async (repo, index) => {
+            try {
+              rows[index] = await compareRefs(new GitClient(output, { token }), repo, base, compare);
+            } catch (e: any) {
+              rows[index] = {
+                name: repo.name, path: repo.path, missing: [], ahead: 0, behind: 0,
+                aheadCommits: [], behindCommits: [], files: [], error: e.message || String(e),
+              };
+            }
+          },
+          token,
+        ),
+    );
+    const compared = rows.filter((row) => row !== undefined);
+    output.appendLine(`\n=== Compare ${compare} with ${base}: ${summarizeComparisons(compared)} ===`);
+    for (const row of compared) {
+      output.appendLine(
+        row.error || row.missing.length > 0
+          ? `⚠️ ${row.name}: ${row.error ?? `${row.missing.join(", ")} not found`}`
+          : `${row.name}: ↑${row.ahead} ↓${row.behind}, ${row.files.length} file(s) changed`,
+      );
+    }
+    ComparePanel.show(context.extensionUri, base, compare, compared, (nextBase, nextCompare) =>
+      void compareBranches(nextBase, nextCompare, repos),
+    );
+  };
+
+  const runCompareBranches = async () => {
+    const repos = await getAllRepos();
+    if (repos.length === 0) {
+      vscode.window.showWarningMessage("⚠️ No Git repositories found.");
+      return;
+    }
+    const refs = new Set<string>();
+    await Promise.all(
+      repos.map(async (repo) => {
+        for (const ref of await listRefs(gitClient, repo.path).catch(() => [])) {
+          refs.add(ref);
         }
-      },
+      }),
     );
+    const picked = await pickRefsToCompare(context.workspaceState, [...refs].sort());
+    if (!picked) {return;}
+    for (const ref of [picked.compare, picked.base]) {
+      const validation = validateRefName(ref);
+      if (!validation.valid) {
+        vscode.window.showErrorMessage(`❌ ${validation.error}`);
+        return;
+      }
+    }
+    await compareBranches(picked.base, picked.compare, repos);
+  };
 
-    if (failureCount === 0) {
-      vscode.window.showInformationMessage(
-        `✅ Reset completed successfully on ${successCount} repo(s)`
-      );
-    } else if (successCount === 0) {
-      vscode.window.showErrorMessage(
-        `❌ Reset failed on all ${failureCount} repo(s). Check Output for details.`
-      );
-    } else {
-      vscode.window.showWarningMessage(
-        `⚠️ Reset: ${successCount} succeeded, ${failureCount} failed. Check Output for details.`
-      );
+  const showRepoSummary = async () => {
+    const pick = await statusSummary.pickProblemRepo();
+    if (!pick) {return;}
+    switch (pick.action) {
+      case "pull":
+        return runPull([pick.repo]);
+      case "diff":
+        return showRepoDiff(pick.repo);
+      case "open":
+        await vscode.commands.executeCommand(
+          "multi-repo-git-commands.openRepo",
+          vscode.Uri.file(pick.repo.path),
+        );
     }
   };
 
   // --- Registration (Centralized) ---
 
   // Handler map: command ID → implementation
+  // SCM context menus pass a SourceControl, the Explorer passes a folder URI
+  // and the Repositories view passes its tree item
+  type RepoItem = vscode.SourceControl | vscode.Uri | vscode.TreeItem | undefined;
+
+  const resolveRepoItem = async (item: RepoItem): Promise<RepoInfo | undefined> => {
+    const fsPath =
+      item instanceof vscode.Uri
+        ? item.fsPath
+        : item && "resourceUri" in item
+          ? item.resourceUri?.fsPath
+          : (item as vscode.SourceControl | undefined)?.rootUri?.fsPath;
+    if (!fsPath) {
+      return undefined;
+    }
+    const root = await gitClient.topLevel(fsPath);
+    if (!root) {
+      vscode.window.showWarningMessage(
+        `⚠️ ${path.basename(fsPath)} is not inside a Git repository.`,
+      );
+      return undefined;
+    }
+    return { name: path.basename(root), path: root };
+  };
+
   const singleRepoWrapper =
     (fn: (repos?: RepoInfo[]) => Promise<void>) =>
-    async (item: vscode.SourceControl) => {
-      if (item && item.rootUri) {
-        const repo: RepoInfo = {
-          name: path.basename(item.rootUri.fsPath),
-          path: item.rootUri.fsPath,
-        };
+    async (item: RepoItem) => {
+      const repo = await resolveRepoItem(item);
+      if (repo) {
         await fn([repo]);
       }
     };
@@ -619,7 +1414,9 @@ export function activate(context: vscode.ExtensionContext) {
     "multi-repo-git-commands.statusAll": () => runStatus(),
     "multi-repo-git-commands.fetchAll": () => runFetch(),
     "multi-repo-git-commands.pullAll": () => runPull(),
+    "multi-repo-git-commands.pullAllWithStrategy": () => runPullWithStrategy(),
     "multi-repo-git-commands.pushAll": () => runPush(),
+    "multi-repo-git-commands.pushAllWithOptions": () => runPushWithOptions(),
     "multi-repo-git-commands.commitAll": () => runCommit(),
     "multi-repo-git-commands.stageAll": () => runStageAll(),
     "multi-repo-git-commands.unstageAll": () => runUnstageAll(),
@@ -634,6 +1431,31 @@ export function activate(context: vscode.ExtensionContext) {
     "multi-repo-git-commands.createRemoteAll": () => runCreateRemote(),
     "multi-repo-git-commands.deleteRemoteAll": () => runDeleteRemote(),
     "multi-repo-git-commands.resetWorkspace": () => runResetWorkspace(),
+    "multi-repo-git-commands.exportLastResult": () => exportLastResult(),
+    "multi-repo-git-commands.undoLastOperation": () => runUndo(),
+    "multi-repo-git-commands.restoreBackup": () => runRestoreBackup(),
+    "multi-repo-git-commands.toggleDryRun": async () => {
+      const enabled = await dryRunMode.toggle();
+      vscode.window.showInformationMessage(
+        enabled
+          ? "🧪 Dry run on: bulk commands preview what they would do without changing anything."
+          : "Dry run off: bulk commands run for real.",
+      );
+    },
+    "multi-repo-git-commands.selectGroup": () => groups.pickActiveGroup(),
+    "multi-repo-git-commands.createGroup": async () => groups.createGroup(await getDiscoveredRepos()),
+    "multi-repo-git-commands.editGroup": async () => groups.editGroup(await getDiscoveredRepos()),
+    "multi-repo-git-commands.deleteGroup": () => groups.deleteGroup(),
+    "multi-repo-git-commands.refreshDashboard": async () => dashboard.refresh(),
+    "multi-repo-git-commands.reviewAllChanges": async () => {
+      await vscode.commands.executeCommand(`${ChangeReviewProvider.viewType}.focus`);
+    },
+    "multi-repo-git-commands.refreshReview": async () => statusStore.invalidate(),
+    "multi-repo-git-commands.showRepoSummary": () => showRepoSummary(),
+    "multi-repo-git-commands.compareBranches": () => runCompareBranches(),
+    "multi-repo-git-commands.rescanRepositories": () => rescanRepositories(),
+    "multi-repo-git-commands.cloneMissingRepos": () => runCloneMissing(),
+    "multi-repo-git-commands.cloneRepositories": () => runCloneRepositories(),
   };
 
   // Register all commands
@@ -643,19 +1465,54 @@ export function activate(context: vscode.ExtensionContext) {
     );
   }
 
-  // Single Repo (SCM Context Menu)
+  // Single Repo (SCM / Explorer Context Menu)
+  const singleRepoHandlers: Record<string, (repos?: RepoInfo[]) => Promise<void>> = {
+    "multi-repo-git-commands.customRepo": runCustom,
+    "multi-repo-git-commands.statusRepo": runStatus,
+    "multi-repo-git-commands.fetchRepo": runFetch,
+    "multi-repo-git-commands.pullRepo": runPull,
+    "multi-repo-git-commands.pushRepo": runPush,
+    "multi-repo-git-commands.commitRepo": runCommit,
+    "multi-repo-git-commands.stashRepo": runStash,
+    "multi-repo-git-commands.popStashRepo": runPopStash,
+    "multi-repo-git-commands.discardRepo": runDiscard,
+    "multi-repo-git-commands.checkoutRepo": runCheckout,
+    "multi-repo-git-commands.createBranchRepo": runCreateBranch,
+    "multi-repo-git-commands.deleteBranchRepo": runDeleteBranch,
+    "multi-repo-git-commands.createTagRepo": runCreateTag,
+    "multi-repo-git-commands.deleteTagRepo": runDeleteTag,
+  };
+
+  for (const [cmdId, handler] of Object.entries(singleRepoHandlers)) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(cmdId, singleRepoWrapper(handler))
+    );
+  }
+
+  type ReviewNode = ReviewFileItem | ReviewHunkItem;
+  context.subscriptions.push(
+    vscode.commands.registerCommand("multi-repo-git-commands.openReviewDiff", (node: ReviewNode) => review.openDiff(node)),
+    vscode.commands.registerCommand("multi-repo-git-commands.reviewStage", (node: ReviewNode) => review.stage(node)),
+    vscode.commands.registerCommand("multi-repo-git-commands.reviewUnstage", (node: ReviewNode) => review.unstage(node)),
+    vscode.commands.registerCommand("multi-repo-git-commands.reviewDiscard", (node: ReviewNode) => discardReviewed(node)),
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand(
-      "multi-repo-git-commands.customRepo",
-      singleRepoWrapper(runCustom),
+      "multi-repo-git-commands.cloneMissingRepo",
+      (item?: MissingRepoTreeItem) => runCloneMissing(item ? [item.entry] : undefined),
     ),
+  );
+
+  context.subscriptions.push(
     vscode.commands.registerCommand(
       "multi-repo-git-commands.openRepo",
-      async (item: vscode.SourceControl) => {
-        if (item && item.rootUri) {
+      async (item: RepoItem) => {
+        const repo = await resolveRepoItem(item);
+        if (repo) {
           await vscode.commands.executeCommand(
             "vscode.openFolder",
-            item.rootUri,
+            vscode.Uri.file(repo.path),
             { forceNewWindow: false, noRecentEntry: false },
           );
         }
@@ -668,6 +1525,9 @@ export function activate(context: vscode.ExtensionContext) {
       MultiRepoViewProvider.viewType,
       provider,
     ),
+    vscode.window.registerTreeDataProvider(DashboardProvider.viewType, dashboard),
+    vscode.window.registerTreeDataProvider(ChangeReviewProvider.viewType, review),
+    vscode.workspace.registerTextDocumentContentProvider(REVIEW_SCHEME, review),
   );
 
   context.subscriptions.push(output);
@@ -1,5 +1,6 @@
-import { simpleGit, SimpleGit } from "simple-git";
+import { simpleGit, SimpleGit, SimpleGitOptions, BranchSummary, TagResult, LogResult } from "simple-git";
 import * as path from "node:path";
+import * as fs from "node:fs/promises";
 import * as vscode from "vscode";
 
 export interface GitOperationResult {
@@ -8,12 +9,82 @@ export interface GitOperationResult {
   error?: string;
 }
 
+export interface GitOutput {
+  append(value: string): void;
+  appendLine(value: string): void;
+}
+
+export interface GitProcessRecord {
+  stdout: string;
+  stderr: string;
+  exitCode?: number;
+}
+
+/** How `pull` integrates upstream commits: `git pull --rebase`, `--no-rebase` or `--ff-only`. */
+export type PullStrategy = "rebase" | "merge" | "ff-only";
+
+const PULL_FLAGS: Record<PullStrategy, string> = {
+  rebase: "--rebase",
+  merge: "--no-rebase",
+  "ff-only": "--ff-only",
+};
+
+export interface CommitOptions {
+  amend?: boolean;
+  signOff?: boolean;
+  noVerify?: boolean;
+}
+
+/**
+ * `remote` and `branch` (a branch or `local:remote` refspec) push to that
+ * remote instead of the upstream; `setUpstream` makes it the upstream (`-u`).
+ */
+export interface PushOptions {
+  remote?: string;
+  branch?: string;
+  setUpstream?: boolean;
+  forceWithLease?: boolean;
+  tags?: boolean;
+}
+
+export type GitBackendOptions = Partial<SimpleGitOptions> & { baseDir: string };
+
+/** Creates the git instance used for one operation; replaceable for testing. */
+export type GitBackendFactory = (options: GitBackendOptions) => SimpleGit;
+
+export interface GitClientOptions {
+  /** Timeouts in milliseconds keyed by operation (`fetch`, `pull`, …) or `default`. */
+  timeouts?: Record<string, number>;
+  backend?: GitBackendFactory;
+  /** Keep the raw process output in `record` (used for per-repo bulk results). */
+  recordProcesses?: boolean;
+  /** Cancelling the token kills any git process still running. */
+  token?: vscode.CancellationToken;
+}
+
+const DEFAULT_TIMEOUT = 30000; // 30 seconds
+
+export function getGitTimeouts(): Record<string, number> {
+  const config = vscode.workspace.getConfiguration("multiRepoGit");
+  return config.get<Record<string, number>>("timeouts", {});
+}
+
 export class GitClient {
-  private output: vscode.OutputChannel;
-  private readonly DEFAULT_TIMEOUT = 30000; // 30 seconds
+  private output: GitOutput;
+  private readonly timeouts?: Record<string, number>;
+  private readonly backend: GitBackendFactory;
+  private readonly recordProcesses: boolean;
+  private readonly token?: vscode.CancellationToken;
+
+  /** Raw stdout, stderr and exit code of every process spawned by this client. */
+  readonly record: GitProcessRecord = { stdout: "", stderr: "" };
 
-  constructor(output: vscode.OutputChannel) {
+  constructor(output: GitOutput, options: GitClientOptions = {}) {
     this.output = output;
+    this.timeouts = options.timeouts;
+    this.backend = options.backend ?? ((backendOptions) => simpleGit(backendOptions));
+    this.recordProcesses = options.recordProcesses ?? false;
+    this.token = options.token;
   }
 
   private getRepoName(repoPath: string): string {
@@ -25,16 +96,98 @@ export class GitClient {
     this.output.appendLine(`${emoji} [${repoName}] ${operation}: ${message || ""}`);
   }
 
-  private async withTimeout<T>(promise: Promise<T>, timeoutMs: number = this.DEFAULT_TIMEOUT): Promise<T> {
-    return Promise.race([
-      promise,
-      new Promise<T>((_, reject) =>
-        setTimeout(
-          () => reject(new Error(`Operation timeout after ${timeoutMs}ms`)),
-          timeoutMs
-        )
-      ),
-    ]);
+  private timeoutFor(operation: string): number {
+    const timeouts = this.timeouts ?? getGitTimeouts();
+    return timeouts[operation] ?? timeouts.default ?? DEFAULT_TIMEOUT;
+  }
+
+  /**
+   * Runs `fn` against a fresh git instance for `repoPath`. The child process
+   * is killed once the operation's timeout elapses or the token is cancelled.
+   */
+  async run<T>(
+    repoPath: string,
+    operation: string,
+    fn: (git: SimpleGit) => Promise<T>,
+    options: { record?: boolean } = {},
+  ): Promise<T> {
+    const timeoutMs = this.timeoutFor(operation);
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const cancellation = this.token?.onCancellationRequested(() => controller.abort());
+
+    const record = this.recordProcesses && options.record !== false ? this.record : undefined;
+    try {
+      if (this.token?.isCancellationRequested) {
+        throw new Error("Operation cancelled");
+      }
+      // Inside the try: the backend throws synchronously when `repoPath` does not exist
+      const git = this.backend({
+        baseDir: repoPath,
+        abort: controller.signal,
+        errors(error, result) {
+          if (record) {
+            record.stdout += Buffer.concat(result.stdOut).toString("utf-8");
+            record.stderr += Buffer.concat(result.stdErr).toString("utf-8");
+            if (typeof result.exitCode === "number" && (record.exitCode === undefined || result.exitCode !== 0)) {
+              record.exitCode = result.exitCode;
+            }
+          }
+          return error;
+        },
+      });
+      return await fn(git);
+    } catch (e) {
+      if (timedOut) {
+        throw new Error(`Operation timeout after ${timeoutMs}ms`);
+      }
+      if (controller.signal.aborted) {
+        throw new Error("Operation cancelled");
+      }
+      throw e;
+    } finally {
+      clearTimeout(timer);
+      cancellation?.dispose();
+    }
+  }
+
+  async head(repoPath: string): Promise<string | undefined> {
+    try {
+      const sha = await this.run(repoPath, "query", (git) => git.revparse(["HEAD"]), { record: false });
+      return sha.trim();
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Resolves the root of the repository containing `dir`, if any. */
+  async topLevel(dir: string): Promise<string | undefined> {
+    try {
+      const root = await this.run(dir, "query", (git) => git.revparse(["--show-toplevel"]), { record: false });
+      return path.normalize(root.trim());
+    } catch {
+      return undefined;
+    }
+  }
+
+  async branchLocal(repoPath: string): Promise<BranchSummary> {
+    return this.run(repoPath, "query", (git) => git.branchLocal(), { record: false });
+  }
+
+  async branches(repoPath: string, options: string[] = []): Promise<BranchSummary> {
+    return this.run(repoPath, "query", (git) => git.branch(options), { record: false });
+  }
+
+  async tags(repoPath: string): Promise<TagResult> {
+    return this.run(repoPath, "query", (git) => git.tags(), { record: false });
+  }
+
+  async log(repoPath: string, options: string[]): Promise<LogResult> {
+    return this.run(repoPath, "query", (git) => git.log(options), { record: false });
   }
 
   async status(repoPath: string): Promise<GitOperationResult> {
@@ -42,8 +195,7 @@ export class GitClient {
       const repoName = this.getRepoName(repoPath);
       this.logOperation(repoName, "Status", "start");
 
-      const git = simpleGit(repoPath);
-      const res = await this.withTimeout(git.status());
+      const res = await this.run(repoPath, "status", (git) => git.status());
 
       this.output.appendLine(`On branch ${res.current}`);
       if (res.isClean()) {
@@ -66,8 +218,7 @@ export class GitClient {
       const repoName = this.getRepoName(repoPath);
       this.logOperation(repoName, "Fetch", "start");
 
-      const git = simpleGit(repoPath);
-      await this.withTimeout(git.fetch(["--all", "--prune"]));
+      await this.run(repoPath, "fetch", (git) => git.fetch(["--all", "--prune"]));
 
       this.logOperation(repoName, "Fetch", "success", "completed");
       return { success: true, message: "Fetch completed" };
@@ -78,30 +229,45 @@ export class GitClient {
     }
   }
 
-  async pull(repoPath: string): Promise<GitOperationResult> {
+  async pull(repoPath: string, strategy: PullStrategy = "rebase"): Promise<GitOperationResult> {
     try {
       const repoName = this.getRepoName(repoPath);
       this.logOperation(repoName, "Pull", "start");
 
-      const git = simpleGit(repoPath);
-      await this.withTimeout(git.pull(undefined, undefined, { "--rebase": null }));
+      await this.run(repoPath, "pull", (git) => git.pull(undefined, undefined, { [PULL_FLAGS[strategy]]: null }));
 
       this.logOperation(repoName, "Pull", "success", "completed");
       return { success: true, message: "Pull completed" };
     } catch (e: any) {
       const error = e.message || String(e);
       this.logOperation(this.getRepoName(repoPath), "Pull", "error", error);
+      if (strategy === "ff-only" && /not possible to fast-forward|diverging branches/i.test(error)) {
+        return {
+          success: false,
+          message: "Pull failed: diverged",
+          error: "diverged: local and upstream both have new commits, so a fast-forward is not possible. Rebase or merge to integrate them.",
+        };
+      }
       return { success: false, message: "Pull failed", error };
     }
   }
 
-  async push(repoPath: string): Promise<GitOperationResult> {
+  async push(repoPath: string, options: PushOptions = {}): Promise<GitOperationResult> {
     try {
       const repoName = this.getRepoName(repoPath);
       this.logOperation(repoName, "Push", "start");
 
-      const git = simpleGit(repoPath);
-      await this.withTimeout(git.push());
+      const flags: Record<string, null> = {};
+      if (options.setUpstream) {
+        flags["--set-upstream"] = null;
+      }
+      if (options.forceWithLease) {
+        flags["--force-with-lease"] = null;
+      }
+      if (options.tags) {
+        flags["--tags"] = null;
+      }
+      await this.run(repoPath, "push", (git) => git.push(options.remote, options.remote && options.branch, flags));
 
       this.logOperation(repoName, "Push", "success", "completed");
       return { success: true, message: "Push completed" };
@@ -112,16 +278,25 @@ export class GitClient {
     }
   }
 
-  async commit(repoPath: string, message: string): Promise<GitOperationResult> {
+  async commit(repoPath: string, message: string, options: CommitOptions = {}): Promise<GitOperationResult> {
     try {
       const repoName = this.getRepoName(repoPath);
       this.logOperation(repoName, "Commit", "start", message);
 
-      const git = simpleGit(repoPath);
-      await this.withTimeout(git.commit(message));
+      const flags: Record<string, null> = {};
+      if (options.amend) {
+        flags["--amend"] = null;
+      }
+      if (options.signOff) {
+        flags["--signoff"] = null;
+      }
+      if (options.noVerify) {
+        flags["--no-verify"] = null;
+      }
+      await this.run(repoPath, "commit", (git) => git.commit(message, [], flags));
 
       this.logOperation(repoName, "Commit", "success");
-      return { success: true, message: `Committed: "${message}"` };
+      return { success: true, message: `${options.amend ? "Amended" : "Committed"}: "${message}"` };
     } catch (e: any) {
       const error = e.message || String(e);
       this.logOperation(this.getRepoName(repoPath), "Commit", "error", error);
@@ -134,8 +309,7 @@ export class GitClient {
       const repoName = this.getRepoName(repoPath);
       this.logOperation(repoName, "Stage All", "start");
 
-      const git = simpleGit(repoPath);
-      await this.withTimeout(git.add("."));
+      await this.run(repoPath, "stage", (git) => git.add("."));
 
       this.logOperation(repoName, "Stage All", "success");
       return { success: true, message: "Staged all changes" };
@@ -151,8 +325,7 @@ export class GitClient {
       const repoName = this.getRepoName(repoPath);
       this.logOperation(repoName, "Unstage All", "start");
 
-      const git = simpleGit(repoPath);
-      await this.withTimeout(git.reset(["HEAD"]));
+      await this.run(repoPath, "unstage", (git) => git.reset(["HEAD"]));
 
       this.logOperation(repoName, "Unstage All", "success");
       return { success: true, message: "Unstaged all changes" };
@@ -168,9 +341,8 @@ export class GitClient {
       const repoName = this.getRepoName(repoPath);
       this.logOperation(repoName, "Discard", "start");
 
-      const git = simpleGit(repoPath);
-      await this.withTimeout(git.reset(["--hard", "HEAD"]));
-      await this.withTimeout(git.clean("f", ["-d"]));
+      await this.run(repoPath, "discard", (git) => git.reset(["--hard", "HEAD"]));
+      await this.run(repoPath, "discard", (git) => git.clean("f", ["-d"]));
 
       this.logOperation(repoName, "Discard", "success");
       return { success: true, message: "Discarded all changes" };
@@ -186,11 +358,10 @@ export class GitClient {
       const repoName = this.getRepoName(repoPath);
       this.logOperation(repoName, "Stash", "start", message || "(no message)");
 
-      const git = simpleGit(repoPath);
       if (message) {
-        await this.withTimeout(git.stash(["push", "-m", message]));
+        await this.run(repoPath, "stash", (git) => git.stash(["push", "-m", message]));
       } else {
-        await this.withTimeout(git.stash(["push"]));
+        await this.run(repoPath, "stash", (git) => git.stash(["push"]));
       }
 
       this.logOperation(repoName, "Stash", "success");
@@ -207,8 +378,7 @@ export class GitClient {
       const repoName = this.getRepoName(repoPath);
       this.logOperation(repoName, "Pop Stash", "start");
 
-      const git = simpleGit(repoPath);
-      await this.withTimeout(git.stash(["pop"]));
+      await this.run(repoPath, "stash", (git) => git.stash(["pop"]));
 
       this.logOperation(repoName, "Pop Stash", "success");
       return { success: true, message: "Popped stash" };
@@ -224,8 +394,7 @@ export class GitClient {
       const repoName = this.getRepoName(repoPath);
       this.logOperation(repoName, "Checkout", "start", branch);
 
-      const git = simpleGit(repoPath);
-      await this.withTimeout(git.checkout(branch));
+      await this.run(repoPath, "checkout", (git) => git.checkout(branch));
 
       this.logOperation(repoName, "Checkout", "success", branch);
       return { success: true, message: `Checked out ${branch}` };
@@ -241,8 +410,7 @@ export class GitClient {
       const repoName = this.getRepoName(repoPath);
       this.logOperation(repoName, "Create Branch", "start", branch);
 
-      const git = simpleGit(repoPath);
-      await this.withTimeout(git.checkoutLocalBranch(branch));
+      await this.run(repoPath, "branch", (git) => git.checkoutLocalBranch(branch));
 
       this.logOperation(repoName, "Create Branch", "success", branch);
       return { success: true, message: `Created and checked out ${branch}` };
@@ -258,8 +426,7 @@ export class GitClient {
       const repoName = this.getRepoName(repoPath);
       this.logOperation(repoName, "Delete Branch", "start", branch);
 
-      const git = simpleGit(repoPath);
-      await this.withTimeout(git.deleteLocalBranch(branch, true));
+      await this.run(repoPath, "branch", (git) => git.deleteLocalBranch(branch, true));
 
       this.logOperation(repoName, "Delete Branch", "success", branch);
       return { success: true, message: `Deleted branch ${branch}` };
@@ -275,8 +442,7 @@ export class GitClient {
       const repoName = this.getRepoName(repoPath);
       this.logOperation(repoName, "Create Tag", "start", tag);
 
-      const git = simpleGit(repoPath);
-      await this.withTimeout(git.addTag(tag));
+      await this.run(repoPath, "tag", (git) => git.addTag(tag));
 
       this.logOperation(repoName, "Create Tag", "success", tag);
       return { success: true, message: `Created tag ${tag}` };
@@ -292,8 +458,7 @@ export class GitClient {
       const repoName = this.getRepoName(repoPath);
       this.logOperation(repoName, "Delete Tag", "start", tag);
 
-      const git = simpleGit(repoPath);
-      await this.withTimeout(git.tag(["-d", tag]));
+      await this.run(repoPath, "tag", (git) => git.tag(["-d", tag]));
 
       this.logOperation(repoName, "Delete Tag", "success", tag);
       return { success: true, message: `Deleted tag ${tag}` };
@@ -309,8 +474,7 @@ export class GitClient {
       const repoName = this.getRepoName(repoPath);
       this.logOperation(repoName, "Add Remote", "start", `${name} -> ${url}`);
 
-      const git = simpleGit(repoPath);
-      await this.withTimeout(git.addRemote(name, url));
+      await this.run(repoPath, "remote", (git) => git.addRemote(name, url));
 
       this.logOperation(repoName, "Add Remote", "success", name);
       return { success: true, message: `Added remote ${name}` };
@@ -326,8 +490,7 @@ export class GitClient {
       const repoName = this.getRepoName(repoPath);
       this.logOperation(repoName, "Delete Remote", "start", name);
 
-      const git = simpleGit(repoPath);
-      await this.withTimeout(git.removeRemote(name));
+      await this.run(repoPath, "remote", (git) => git.removeRemote(name));
 
       this.logOperation(repoName, "Delete Remote", "success", name);
       return { success: true, message: `Deleted remote ${name}` };
@@ -338,16 +501,48 @@ export class GitClient {
     }
   }
 
+  /** Clones `url` into `repoPath`, creating missing parent folders. */
+  async clone(
+    repoPath: string,
+    url: string,
+    options: { branch?: string; depth?: number } = {},
+  ): Promise<GitOperationResult> {
+    try {
+      const repoName = this.getRepoName(repoPath);
+      this.logOperation(repoName, "Clone", "start", url);
+
+      const parent = path.dirname(repoPath);
+      await fs.mkdir(parent, { recursive: true });
+      const cloneOptions = [
+        ...(options.branch ? ["--branch", options.branch] : []),
+        ...(options.depth ? ["--depth", String(options.depth)] : []),
+      ];
+      await this.run(parent, "clone", (git) => git.clone(url, repoPath, cloneOptions));
+
+      this.logOperation(repoName, "Clone", "success", repoPath);
+      return { success: true, message: `Cloned ${url}` };
+    } catch (e: any) {
+      const error = e.message || String(e);
+      this.logOperation(this.getRepoName(repoPath), "Clone", "error", error);
+      return { success: false, message: "Clone failed", error };
+    }
+  }
+
   async raw(repoPath: string, args: string[]): Promise<GitOperationResult> {
     try {
       const repoName = this.getRepoName(repoPath);
       const command = args.join(" ");
       this.logOperation(repoName, "Custom Git", "start", command);
 
-      const git = simpleGit(repoPath);
-      const res = await this.withTimeout(git.raw(args));
+      const res = await this.run(repoPath, "custom", (git) => git.raw(args));
 
-      if (res) {this.output.append(res);}
+      if (res) {
+        if (res.endsWith("\n")) {
+          this.output.append(res);
+        } else {
+          this.output.appendLine(res);
+        }
+      }
       this.logOperation(repoName, "Custom Git", "success");
       return { success: true, message: "Command executed" };
     } catch (e: any) {
@@ -0,0 +1,86 @@
+/**
+ * Minimal glob support for repository patterns: `**` matches any number of
+ * path segments, `*` anything within a segment and `?` a single character.
+ * Paths are compared with forward slashes.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const normalized = toPosix(pattern).replace(/\/+$/, "");
+  let source = "";
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+    if (char === "*") {
+      if (normalized[i + 1] === "*") {
+        i++;
+        if (normalized[i + 1] === "/") {
+          // "**/" also matches zero segments
+          i++;
+          source += "(?:.*/)?";
+        } else {
+          source += ".*";
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesGlob(filePath: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(toPosix(filePath).replace(/\/+$/, ""));
+}
+
+export function toPosix(value: string): string {
+  return value.replace(/\\/g, "/");
+}
+
+export interface IgnoreRule {
+  pattern: RegExp;
+  negated: boolean;
+}
+
+/**
+ * Parses a `.gitignore`-style file: `#` comments, `!` negation, a leading
+ * `/` (or any inner `/`) anchors the pattern to the file's directory,
+ * otherwise it matches at any depth. Only directories are matched here, so a
+ * trailing `/` is ignored.
+ */
+export function parseIgnoreFile(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.trim();
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+    const negated = line.startsWith("!");
+    if (negated) {
+      line = line.slice(1);
+    }
+    line = line.replace(/\/+$/, "");
+    if (!line) {
+      continue;
+    }
+    const anchored = line.includes("/");
+    const glob = anchored ? line.replace(/^\/+/, "") : `**/${line}`;
+    rules.push({ pattern: globToRegExp(glob), negated });
+  }
+  return rules;
+}
+
+/**
+ * Whether `relativePath` is ignored; the last matching rule wins. `ignored`
+ * is the verdict of rules from enclosing directories, if any.
+ */
+export function isIgnored(relativePath: string, rules: readonly IgnoreRule[], ignored = false): boolean {
+  const normalized = toPosix(relativePath).replace(/\/+$/, "");
+  for (const rule of rules) {
+    if (rule.pattern.test(normalized)) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+}
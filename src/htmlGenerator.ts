@@ -43,6 +43,12 @@ export class HtmlGenerator {
 					}
                     input:focus {
                         outline: 1px solid var(--vscode-focusBorder);
+                    }
+                    select {
+                        padding: 4px;
+                        background: var(--vscode-dropdown-background);
+                        color: var(--vscode-dropdown-foreground);
+                        border: 1px solid var(--vscode-dropdown-border);
                     }
 					button {
 						width: 100%;
@@ -162,6 +168,18 @@ export class HtmlGenerator {
 				</style>
 			</head>
 			<body>
+                <div class="section">
+                    <h3>Group</h3>
+                    <div style="display: flex; gap: 4px;">
+                        <select id="groupSelect" title="Scope bulk commands and searches to a repository group" style="flex: 1;">
+                            <option value="">All repositories</option>
+                        </select>
+                        <button id="createGroupBtn" style="width: auto; padding: 0 8px; margin-bottom: 0;" title="Create Group" data-command="multi-repo-git-commands.createGroup">
+                            <i class="codicon codicon-add"></i>
+                        </button>
+                    </div>
+                </div>
+
                 <div class="section">
                     <h3>Global Actions</h3>
                     <div class="toolbar">
@@ -262,6 +280,18 @@ export class HtmlGenerator {
 			</html>`;
   }
 
+  /** `escapeHtml(value)` for text and attribute values, shared by every webview script. */
+  private static getEscapeHtmlScript(): string {
+    return `
+function escapeHtml(value) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}`;
+  }
+
   private static getClientScript(): string {
     return `
 const vscode = acquireVsCodeApi();
@@ -270,13 +300,7 @@ const loadingDiv = document.getElementById('loading');
 let currentSearchType = '';
 let currentSearchValue = '';
 
-function escapeAttr(value) {
-  return String(value)
-    .replace(/&/g, '&amp;')
-    .replace(/"/g, '&quot;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;');
-}
+${this.getEscapeHtmlScript()}
 
 function runCmd(command) {
   vscode.postMessage({ type: 'runCommand', command });
@@ -299,6 +323,10 @@ document.querySelectorAll('button[data-command]').forEach((btn) => {
   });
 });
 
+document.getElementById('groupSelect').addEventListener('change', (e) => {
+  vscode.postMessage({ type: 'selectGroup', group: e.target.value });
+});
+
 document.getElementById('toggleFiltersBtn').addEventListener('click', () => {
   const filters = document.getElementById('commitFilters');
   filters.style.display = filters.style.display === 'none' ? 'block' : 'none';
@@ -412,6 +440,14 @@ resultsDiv.addEventListener('click', (event) => {
 window.addEventListener('message', event => {
   const message = event.data;
   switch (message.type) {
+    case 'groups': {
+      const select = document.getElementById('groupSelect');
+      select.innerHTML = '<option value="">All repositories</option>' + message.groups
+        .map(g => \`<option value="\${escapeHtml(g)}">\${escapeHtml(g)}</option>\`)
+        .join('');
+      select.value = message.active;
+      break;
+    }
     case 'branchFilterSelected':
       document.getElementById('branchFilterInput').value = message.branch;
       break;
@@ -427,19 +463,19 @@ window.addEventListener('message', event => {
       } else {
         resultsDiv.innerHTML = repos.map(r => {
           let matchHtml = '';
-          const safePath = escapeAttr(r.path);
+          const safePath = escapeHtml(r.path);
 
           if (r.matches && r.matches.length > 0) {
             const items = r.matches.map(m => {
               if (m.type === 'branch') {
-                const safeBranch = escapeAttr(m.value);
+                const safeBranch = escapeHtml(m.value);
                 const action = \`<div class="repo-actions"><button data-action="checkoutBranch" data-repo-path="\${safePath}" data-branch="\${safeBranch}">Checkout</button></div>\`;
                 return \`<div class="match-item">
                   <span class="match-name">\${m.label}</span>
                   \${action}
                 </div>\`;
               } else if (m.type === 'tag') {
-                const safeTag = escapeAttr(m.value);
+                const safeTag = escapeHtml(m.value);
                 const action = \`<div class="repo-actions"><button data-action="checkoutTag" data-repo-path="\${safePath}" data-tag="\${safeTag}">Checkout</button></div>\`;
                 return \`<div class="match-item">
                   <span class="match-name"><i class="codicon codicon-tag"></i> \${m.label}</span>
@@ -495,6 +531,717 @@ window.addEventListener('message', event => {
       break;
   }
 });
+
+vscode.postMessage({ type: 'ready' });
+    `;
+  }
+
+  static generateResultsPanelHtml(
+    webview: vscode.Webview,
+    extensionUri: vscode.Uri,
+    nonce: string,
+  ): string {
+    const codiconsUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(extensionUri, "dist", "codicons", "codicon.css"),
+    );
+
+    return `<!DOCTYPE html>
+			<html lang="en">
+			<head>
+				<meta charset="UTF-8">
+				<meta name="viewport" content="width=device-width, initial-scale=1.0">
+				<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; font-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+				<title>Multi Repo Git Results</title>
+				<link href="${codiconsUri}" rel="stylesheet" />
+				<style>
+					body { padding: 10px; font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+					h3 { font-size: 1.1em; margin-bottom: 8px; opacity: 0.8; }
+					.header { display: flex; justify-content: space-between; align-items: center; gap: 8px; }
+					.header button {
+						padding: 4px 10px;
+						background: var(--vscode-button-background);
+						color: var(--vscode-button-foreground);
+						border: none;
+						cursor: pointer;
+					}
+					.header button:disabled { opacity: 0.5; cursor: default; }
+					.summary { margin-bottom: 12px; opacity: 0.8; }
+					table { width: 100%; border-collapse: collapse; }
+					th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid var(--vscode-panel-border); vertical-align: top; }
+					tr.repo-row { cursor: pointer; }
+					tr.repo-row:hover { background: var(--vscode-list-hoverBackground); }
+					.state { white-space: nowrap; }
+					.state-ok { color: var(--vscode-testing-iconPassed); }
+					.state-failed { color: var(--vscode-testing-iconFailed); }
+					.state-running { color: var(--vscode-progressBar-background); }
+					.state-pending, .state-skipped { opacity: 0.6; }
+					.duration { white-space: nowrap; font-family: var(--vscode-editor-font-family); }
+					.error { color: var(--vscode-errorForeground); word-break: break-word; }
+					tr.output-row { display: none; }
+					tr.output-row.open { display: table-row; }
+					pre {
+						margin: 0;
+						padding: 8px;
+						white-space: pre-wrap;
+						font-family: var(--vscode-editor-font-family);
+						background: var(--vscode-textBlockQuote-background);
+					}
+				</style>
+			</head>
+			<body>
+				<div class="header">
+					<h3 id="title">No operation yet</h3>
+					<button id="exportBtn" title="Export results as JSON" disabled><i class="codicon codicon-json"></i> Export JSON</button>
+				</div>
+				<div id="summary" class="summary"></div>
+				<table>
+					<thead><tr><th>Repository</th><th>State</th><th>Duration</th><th>Error</th></tr></thead>
+					<tbody id="rows"></tbody>
+				</table>
+
+				<script nonce="${nonce}">
+					${this.getResultsPanelScript()}
+				</script>
+			</body>
+			</html>`;
+  }
+
+  private static getResultsPanelScript(): string {
+    return `
+const vscode = acquireVsCodeApi();
+const rowsBody = document.getElementById('rows');
+const titleEl = document.getElementById('title');
+const exportBtn = document.getElementById('exportBtn');
+const summaryEl = document.getElementById('summary');
+const rows = new Map();
+const ICONS = {
+  pending: 'circle-outline',
+  running: 'sync codicon-modifier-spin',
+  ok: 'pass',
+  failed: 'error',
+  skipped: 'debug-step-over',
+};
+
+${this.getEscapeHtmlScript()}
+
+function formatDuration(ms) {
+  if (ms === undefined) {
+    return '';
+  }
+  return ms < 1000 ? ms + ' ms' : (ms / 1000).toFixed(1) + ' s';
+}
+
+function renderRow(row) {
+  const icon = ICONS[row.state] || 'circle-outline';
+  return \`<tr class="repo-row" data-path="\${escapeHtml(row.path)}" title="\${escapeHtml(row.path)}">
+    <td>\${escapeHtml(row.name)}</td>
+    <td class="state state-\${row.state}"><i class="codicon codicon-\${icon}"></i> \${row.state}</td>
+    <td class="duration">\${formatDuration(row.durationMs)}</td>
+    <td class="error">\${row.error ? escapeHtml(row.error) : ''}</td>
+  </tr>
+  <tr class="output-row" data-output-for="\${escapeHtml(row.path)}">
+    <td colspan="4"><pre>\${row.output ? escapeHtml(row.output) : 'No output yet.'}</pre></td>
+  </tr>\`;
+}
+
+function render() {
+  const all = Array.from(rows.values());
+  const open = new Set(Array.from(document.querySelectorAll('tr.output-row.open')).map(el => el.getAttribute('data-output-for')));
+  rowsBody.innerHTML = all.map(renderRow).join('');
+  document.querySelectorAll('tr.output-row').forEach(el => {
+    if (open.has(el.getAttribute('data-output-for'))) {
+      el.classList.add('open');
+    }
+  });
+  const count = (state) => all.filter(r => r.state === state).length;
+  summaryEl.textContent = \`\${count('ok')} ok · \${count('failed')} failed · \${count('running')} running · \${count('pending')} pending · \${count('skipped')} skipped\`;
+}
+
+exportBtn.addEventListener('click', () => {
+  vscode.postMessage({ type: 'exportResult' });
+});
+
+rowsBody.addEventListener('click', (event) => {
+  const target = event.target;
+  if (!(target instanceof Element)) {
+    return;
+  }
+  const row = target.closest('tr.repo-row');
+  if (!row) {
+    return;
+  }
+  const outputRow = row.nextElementSibling;
+  if (outputRow) {
+    outputRow.classList.toggle('open');
+    outputRow.scrollIntoView({ block: 'nearest' });
+  }
+  // The row's own output is shown inline; the channel holds the whole operation
+  vscode.postMessage({ type: 'revealOutput' });
+});
+
+window.addEventListener('message', event => {
+  const message = event.data;
+  switch (message.type) {
+    case 'init':
+      titleEl.textContent = message.operationName || 'No operation yet';
+      rows.clear();
+      message.rows.forEach(row => rows.set(row.path, row));
+      exportBtn.disabled = !message.completed;
+      render();
+      break;
+    case 'update':
+      rows.set(message.row.path, message.row);
+      render();
+      break;
+    case 'completed':
+      exportBtn.disabled = false;
+      break;
+  }
+});
+
+vscode.postMessage({ type: 'ready' });
     `;
   }
+
+  static generateDryRunPanelHtml(
+    webview: vscode.Webview,
+    extensionUri: vscode.Uri,
+    nonce: string,
+  ): string {
+    const codiconsUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(extensionUri, "dist", "codicons", "codicon.css"),
+    );
+
+    return `<!DOCTYPE html>
+			<html lang="en">
+			<head>
+				<meta charset="UTF-8">
+				<meta name="viewport" content="width=device-width, initial-scale=1.0">
+				<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; font-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+				<title>Multi Repo Git Dry Run</title>
+				<link href="${codiconsUri}" rel="stylesheet" />
+				<style>
+					body { padding: 10px; font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+					h3 { font-size: 1.1em; margin-bottom: 8px; opacity: 0.8; }
+					.header { display: flex; justify-content: space-between; align-items: center; gap: 8px; }
+					.actions { display: flex; gap: 6px; }
+					.actions button {
+						padding: 4px 10px;
+						background: var(--vscode-button-background);
+						color: var(--vscode-button-foreground);
+						border: none;
+						cursor: pointer;
+					}
+					.actions button.secondary {
+						background: var(--vscode-button-secondaryBackground);
+						color: var(--vscode-button-secondaryForeground);
+					}
+					.actions button:disabled { opacity: 0.5; cursor: default; }
+					.summary { margin-bottom: 12px; opacity: 0.8; }
+					table { width: 100%; border-collapse: collapse; }
+					th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid var(--vscode-panel-border); vertical-align: top; }
+					.verdict { white-space: nowrap; }
+					.verdict-change { color: var(--vscode-gitDecoration-modifiedResourceForeground); }
+					.verdict-unchanged { opacity: 0.6; }
+					.verdict-fail { color: var(--vscode-testing-iconFailed); }
+					.message { word-break: break-word; }
+				</style>
+			</head>
+			<body>
+				<div class="header">
+					<h3 id="title">Dry run</h3>
+					<div class="actions">
+						<button id="cancelBtn" class="secondary">Close</button>
+						<button id="runBtn" title="Run the command on these repositories"><i class="codicon codicon-play"></i> Run for real</button>
+					</div>
+				</div>
+				<div id="summary" class="summary"></div>
+				<table>
+					<thead><tr><th>Repository</th><th>Result</th><th>Details</th></tr></thead>
+					<tbody id="rows"></tbody>
+				</table>
+
+				<script nonce="${nonce}">
+					${this.getDryRunPanelScript()}
+				</script>
+			</body>
+			</html>`;
+  }
+
+  private static getDryRunPanelScript(): string {
+    return `
+const vscode = acquireVsCodeApi();
+const rowsBody = document.getElementById('rows');
+const titleEl = document.getElementById('title');
+const summaryEl = document.getElementById('summary');
+const runBtn = document.getElementById('runBtn');
+const cancelBtn = document.getElementById('cancelBtn');
+const VERDICTS = {
+  change: { icon: 'edit', label: 'would change' },
+  unchanged: { icon: 'check', label: 'unchanged' },
+  fail: { icon: 'error', label: 'would fail' },
+};
+
+${this.getEscapeHtmlScript()}
+
+function renderRow(row) {
+  const verdict = VERDICTS[row.verdict] || VERDICTS.unchanged;
+  return \`<tr title="\${escapeHtml(row.path)}">
+    <td>\${escapeHtml(row.name)}</td>
+    <td class="verdict verdict-\${row.verdict}"><i class="codicon codicon-\${verdict.icon}"></i> \${verdict.label}</td>
+    <td class="message">\${escapeHtml(row.message)}</td>
+  </tr>\`;
+}
+
+runBtn.addEventListener('click', () => {
+  runBtn.disabled = true;
+  vscode.postMessage({ type: 'runForReal' });
+});
+
+cancelBtn.addEventListener('click', () => {
+  vscode.postMessage({ type: 'cancel' });
+});
+
+window.addEventListener('message', event => {
+  const message = event.data;
+  if (message.type !== 'init') {
+    return;
+  }
+  titleEl.textContent = 'Dry run: ' + message.operationName;
+  rowsBody.innerHTML = message.rows.map(renderRow).join('');
+  const count = (verdict) => message.rows.filter(r => r.verdict === verdict).length;
+  summaryEl.textContent = \`\${count('change')} would change · \${count('unchanged')} unchanged · \${count('fail')} would fail — nothing has been run; remote state is as of the last fetch\`;
+  runBtn.disabled = count('change') === 0;
+});
+
+vscode.postMessage({ type: 'ready' });
+    `;
+  }
+
+  static generateCommitPanelHtml(
+    webview: vscode.Webview,
+    extensionUri: vscode.Uri,
+    nonce: string,
+  ): string {
+    const codiconsUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(extensionUri, "dist", "codicons", "codicon.css"),
+    );
+
+    return `<!DOCTYPE html>
+			<html lang="en">
+			<head>
+				<meta charset="UTF-8">
+				<meta name="viewport" content="width=device-width, initial-scale=1.0">
+				<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; font-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+				<title>Multi Repo Git Commit</title>
+				<link href="${codiconsUri}" rel="stylesheet" />
+				<style>
+					body { padding: 10px; font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+					h3 { font-size: 1.1em; margin-bottom: 8px; opacity: 0.8; }
+					.header { display: flex; justify-content: space-between; align-items: center; gap: 8px; }
+					.actions { display: flex; gap: 6px; }
+					.actions button {
+						padding: 4px 10px;
+						background: var(--vscode-button-background);
+						color: var(--vscode-button-foreground);
+						border: none;
+						cursor: pointer;
+					}
+					.actions button.secondary {
+						background: var(--vscode-button-secondaryBackground);
+						color: var(--vscode-button-secondaryForeground);
+					}
+					.actions button:disabled { opacity: 0.5; cursor: default; }
+					textarea, input[type="text"] {
+						width: 100%;
+						box-sizing: border-box;
+						padding: 4px;
+						background: var(--vscode-input-background);
+						color: var(--vscode-input-foreground);
+						border: 1px solid var(--vscode-input-border, transparent);
+						font-family: inherit;
+					}
+					textarea { min-height: 60px; resize: vertical; }
+					.options { display: flex; gap: 16px; margin: 8px 0; }
+					.summary { margin-bottom: 12px; opacity: 0.8; }
+					.error { color: var(--vscode-errorForeground); margin: 8px 0; }
+					.repo { border-top: 1px solid var(--vscode-panel-border); padding: 8px 0; }
+					.repo-header { display: flex; align-items: center; gap: 6px; font-weight: bold; }
+					.repo-header .branch { font-weight: normal; opacity: 0.7; }
+					.ticket { font-weight: normal; padding: 0 4px; border-radius: 3px; background: var(--vscode-badge-background); color: var(--vscode-badge-foreground); }
+					.assistant { display: flex; gap: 6px; margin-bottom: 6px; align-items: center; }
+					.assistant select, .assistant input[type="text"] {
+						padding: 3px;
+						background: var(--vscode-dropdown-background);
+						color: var(--vscode-dropdown-foreground);
+						border: 1px solid var(--vscode-dropdown-border, transparent);
+					}
+					.assistant input[type="text"] { width: 10em; }
+					.repo.excluded .files, .repo.excluded .override { opacity: 0.5; }
+					.override { margin: 6px 0 4px 22px; width: calc(100% - 22px); }
+					.files { list-style: none; margin: 0; padding-left: 22px; }
+					.files li { display: flex; align-items: center; gap: 6px; padding: 1px 0; }
+					.code { font-family: var(--vscode-editor-font-family); width: 2.5em; opacity: 0.8; }
+					.staged { color: var(--vscode-gitDecoration-addedResourceForeground); }
+					.unstaged { color: var(--vscode-gitDecoration-modifiedResourceForeground); }
+					.file-path { word-break: break-all; }
+				</style>
+			</head>
+			<body>
+				<div class="header">
+					<h3>Commit</h3>
+					<div class="actions">
+						<button id="cancelBtn" class="secondary">Cancel</button>
+						<button id="commitBtn"><i class="codicon codicon-check"></i> Commit</button>
+					</div>
+				</div>
+				<div class="assistant">
+					<select id="template" title="Replace the message with a template from multiRepoGit.commitTemplates"><option value="">Template…</option></select>
+					<select id="type" title="Conventional commit type"><option value="">Type…</option></select>
+					<input type="text" id="scope" placeholder="scope" title="Conventional commit scope">
+					<label id="ticketOption" title="Prefix each repository's message with the ticket ID in its branch name" hidden><input type="checkbox" id="ticketPrefix" checked> Prefix ticket IDs</label>
+				</div>
+				<textarea id="message" placeholder="Commit message (used by every repository without its own)"></textarea>
+				<div class="options">
+					<label title="Replace the last commit (git commit --amend)"><input type="checkbox" id="amend"> Amend</label>
+					<label title="Add a Signed-off-by trailer (git commit --signoff)"><input type="checkbox" id="signOff"> Sign-off</label>
+					<label title="Skip pre-commit and commit-msg hooks (git commit --no-verify)"><input type="checkbox" id="noVerify"> No verify</label>
+				</div>
+				<div id="error" class="error" hidden></div>
+				<div id="summary" class="summary"></div>
+				<div id="repos"></div>
+
+				<script nonce="${nonce}">
+					${this.getCommitPanelScript()}
+				</script>
+			</body>
+			</html>`;
+  }
+
+  private static getCommitPanelScript(): string {
+    return `
+const vscode = acquireVsCodeApi();
+const reposEl = document.getElementById('repos');
+const summaryEl = document.getElementById('summary');
+const errorEl = document.getElementById('error');
+const messageEl = document.getElementById('message');
+const commitBtn = document.getElementById('commitBtn');
+const cancelBtn = document.getElementById('cancelBtn');
+const templateEl = document.getElementById('template');
+const typeEl = document.getElementById('type');
+const scopeEl = document.getElementById('scope');
+const ticketOptionEl = document.getElementById('ticketOption');
+const ticketPrefixEl = document.getElementById('ticketPrefix');
+let repos = [];
+let cleanCount = 0;
+let templates = {};
+let types = [];
+
+// Replaces the conventional commit prefix of the subject, if it has one
+function applyType() {
+  const [subject, ...body] = messageEl.value.split('\\n');
+  const match = /^([\\w-]+)(\\([^()]*\\))?!?: /.exec(subject);
+  const stripped = match && types.includes(match[1]) ? subject.slice(match[0].length) : subject;
+  const scope = scopeEl.value.trim();
+  const prefix = typeEl.value ? typeEl.value + (scope ? '(' + scope + ')' : '') + ': ' : '';
+  messageEl.value = [prefix + stripped, ...body].join('\\n');
+  messageEl.focus();
+}
+
+${this.getEscapeHtmlScript()}
+
+function isStaged(file) {
+  return file.index !== ' ' && file.index !== '?';
+}
+
+function renderFile(repoIndex, file, checked) {
+  const label = file.from ? file.from + ' → ' + file.path : file.path;
+  const state = isStaged(file)
+    ? (file.workingDir !== ' ' ? 'staged, with unstaged changes' : 'staged')
+    : (file.index === '?' ? 'untracked' : 'unstaged');
+  return \`<li title="\${escapeHtml(state)}">
+    <input type="checkbox" class="file" data-repo="\${repoIndex}" data-path="\${escapeHtml(file.path)}" \${checked ? 'checked' : ''}>
+    <span class="code \${isStaged(file) ? 'staged' : 'unstaged'}">\${escapeHtml((file.index + file.workingDir).replace(/ /g, '·'))}</span>
+    <span class="file-path">\${escapeHtml(label)}</span>
+  </li>\`;
+}
+
+function renderRepo(repo, repoIndex) {
+  const selected = new Set(repo.selected);
+  return \`<div class="repo" data-repo="\${repoIndex}" title="\${escapeHtml(repo.path)}">
+    <label class="repo-header">
+      <input type="checkbox" class="include" data-repo="\${repoIndex}" checked>
+      \${escapeHtml(repo.name)}
+      \${repo.branch ? \`<span class="branch"><i class="codicon codicon-git-branch"></i> \${escapeHtml(repo.branch)}</span>\` : ''}
+      \${repo.ticket ? \`<span class="ticket" title="Ticket ID from the branch name">\${escapeHtml(repo.ticket)}</span>\` : ''}
+    </label>
+    <input type="text" class="override" data-repo="\${repoIndex}" placeholder="Message for \${escapeHtml(repo.name)} only (optional)">
+    <ul class="files">\${repo.files.map(file => renderFile(repoIndex, file, selected.has(file.path))).join('')}</ul>
+  </div>\`;
+}
+
+function buildRequest() {
+  const included = Array.from(document.querySelectorAll('input.include:checked')).map(el => Number(el.dataset.repo));
+  return {
+    message: messageEl.value,
+    ticketPrefix: !ticketOptionEl.hidden && ticketPrefixEl.checked,
+    options: {
+      amend: document.getElementById('amend').checked,
+      signOff: document.getElementById('signOff').checked,
+      noVerify: document.getElementById('noVerify').checked,
+    },
+    repos: included.map(index => ({
+      path: repos[index].path,
+      files: Array.from(document.querySelectorAll(\`input.file[data-repo="\${index}"]:checked\`)).map(el => el.dataset.path),
+      message: document.querySelector(\`input.override[data-repo="\${index}"]\`).value || undefined,
+    })),
+  };
+}
+
+function updateSummary() {
+  const request = buildRequest();
+  const files = request.repos.reduce((sum, repo) => sum + repo.files.length, 0);
+  summaryEl.textContent = \`\${request.repos.length} of \${repos.length} repo(s) · \${files} file(s) selected\`
+    + (cleanCount > 0 ? \` · \${cleanCount} clean repo(s) left out\` : '');
+  commitBtn.disabled = request.repos.length === 0;
+}
+
+reposEl.addEventListener('change', event => {
+  const target = event.target;
+  if (target.classList.contains('include')) {
+    document.querySelector(\`.repo[data-repo="\${target.dataset.repo}"]\`).classList.toggle('excluded', !target.checked);
+  }
+  updateSummary();
+});
+
+commitBtn.addEventListener('click', () => {
+  errorEl.hidden = true;
+  commitBtn.disabled = true;
+  vscode.postMessage({ type: 'commit', request: buildRequest() });
+});
+
+cancelBtn.addEventListener('click', () => {
+  vscode.postMessage({ type: 'cancel' });
+});
+
+templateEl.addEventListener('change', () => {
+  if (templateEl.value in templates) {
+    messageEl.value = templates[templateEl.value];
+    if (typeEl.value) {
+      applyType();
+    }
+  }
+  templateEl.value = '';
+  messageEl.focus();
+});
+
+typeEl.addEventListener('change', applyType);
+scopeEl.addEventListener('change', applyType);
+
+window.addEventListener('message', event => {
+  const message = event.data;
+  switch (message.type) {
+    case 'init':
+      repos = message.repos;
+      cleanCount = message.cleanCount;
+      templates = message.templates;
+      types = message.types;
+      templateEl.innerHTML = '<option value="">Template…</option>'
+        + Object.keys(templates).map(name => \`<option value="\${escapeHtml(name)}">\${escapeHtml(name)}</option>\`).join('');
+      templateEl.hidden = Object.keys(templates).length === 0;
+      typeEl.innerHTML = '<option value="">Type…</option>'
+        + types.map(type => \`<option value="\${escapeHtml(type)}">\${escapeHtml(type)}</option>\`).join('');
+      ticketOptionEl.hidden = !repos.some(repo => repo.ticket);
+      reposEl.innerHTML = repos.map(renderRepo).join('');
+      errorEl.hidden = true;
+      updateSummary();
+      messageEl.focus();
+      break;
+    case 'error':
+      errorEl.textContent = message.message;
+      errorEl.hidden = false;
+      commitBtn.disabled = false;
+      break;
+  }
+});
+
+vscode.postMessage({ type: 'ready' });
+    `;
+  }
+  static generateComparePanelHtml(
+    webview: vscode.Webview,
+    extensionUri: vscode.Uri,
+    nonce: string,
+  ): string {
+    const codiconsUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(extensionUri, "dist", "codicons", "codicon.css"),
+    );
+
+    return `<!DOCTYPE html>
+			<html lang="en">
+			<head>
+				<meta charset="UTF-8">
+				<meta name="viewport" content="width=device-width, initial-scale=1.0">
+				<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; font-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+				<title>Multi Repo Git Compare</title>
+				<link href="${codiconsUri}" rel="stylesheet" />
+				<style>
+					body { padding: 10px; font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+					h3 { font-size: 1.1em; margin-bottom: 8px; opacity: 0.8; }
+					h4 { margin: 8px 0 4px; font-size: 1em; opacity: 0.8; }
+					.header { display: flex; justify-content: space-between; align-items: center; gap: 8px; }
+					.actions { display: flex; gap: 6px; }
+					.actions button {
+						padding: 4px 10px;
+						background: var(--vscode-button-secondaryBackground);
+						color: var(--vscode-button-secondaryForeground);
+						border: none;
+						cursor: pointer;
+					}
+					.summary { margin-bottom: 12px; opacity: 0.8; }
+					.repo { border-bottom: 1px solid var(--vscode-panel-border); padding: 4px 0; }
+					.repo > summary { cursor: pointer; display: flex; gap: 12px; align-items: baseline; list-style: none; }
+					.repo > summary::-webkit-details-marker { display: none; }
+					.repo > summary .name { font-weight: bold; min-width: 160px; }
+					.counts { white-space: nowrap; }
+					.ahead { color: var(--vscode-gitDecoration-addedResourceForeground); }
+					.behind { color: var(--vscode-gitDecoration-modifiedResourceForeground); }
+					.identical { opacity: 0.6; }
+					.skipped {
+						background: var(--vscode-inputValidation-warningBackground);
+						border-left: 3px solid var(--vscode-inputValidation-warningBorder);
+						padding-left: 6px;
+					}
+					.skipped .reason { color: var(--vscode-editorWarning-foreground); }
+					.body { padding: 0 0 8px 16px; }
+					table { width: 100%; border-collapse: collapse; }
+					td { text-align: left; padding: 2px 8px 2px 0; vertical-align: top; }
+					.hash, .status { font-family: var(--vscode-editor-font-family); white-space: nowrap; }
+					.meta { opacity: 0.7; white-space: nowrap; }
+					.more { opacity: 0.7; font-style: italic; }
+				</style>
+			</head>
+			<body>
+				<div class="header">
+					<h3 id="title">Compare</h3>
+					<div class="actions">
+						<button id="swapBtn" title="Compare the other way round"><i class="codicon codicon-arrow-swap"></i> Swap</button>
+						<button id="refreshBtn" title="Run the comparison again"><i class="codicon codicon-refresh"></i> Refresh</button>
+						<button id="closeBtn">Close</button>
+					</div>
+				</div>
+				<div id="summary" class="summary"></div>
+				<div id="rows"></div>
+
+				<script nonce="${nonce}">
+					${this.getComparePanelScript()}
+				</script>
+			</body>
+			</html>`;
+  }
+
+  private static getComparePanelScript(): string {
+    return `
+const vscode = acquireVsCodeApi();
+const rowsEl = document.getElementById('rows');
+const titleEl = document.getElementById('title');
+const summaryEl = document.getElementById('summary');
+
+${this.getEscapeHtmlScript()}
+
+function renderCommits(title, commits, total) {
+  if (total === 0) {
+    return '';
+  }
+  const rows = commits.map(c => \`<tr>
+    <td class="hash">\${escapeHtml(c.hash)}</td>
+    <td>\${escapeHtml(c.subject)}</td>
+    <td class="meta">\${escapeHtml(c.author)} · \${escapeHtml(c.date)}</td>
+  </tr>\`).join('');
+  const more = total > commits.length ? \`<div class="more">… and \${total - commits.length} more</div>\` : '';
+  return \`<h4>\${escapeHtml(title)} (\${total})</h4><table>\${rows}</table>\${more}\`;
+}
+
+function renderFiles(files) {
+  if (files.length === 0) {
+    return '';
+  }
+  const rows = files.map(f => \`<tr>
+    <td class="status">\${escapeHtml(f.status)}</td>
+    <td>\${f.from ? escapeHtml(f.from) + ' → ' : ''}\${escapeHtml(f.path)}</td>
+  </tr>\`).join('');
+  return \`<h4>Changed files (\${files.length})</h4><table>\${rows}</table>\`;
+}
+
+function renderRow(row, base, compare) {
+  if (row.missing.length > 0 || row.error) {
+    const reason = row.error
+      ? 'comparison failed: ' + row.error
+      : row.missing.map(ref => ref + ' not found').join(', ') + ' — skipped';
+    return \`<div class="repo skipped" title="\${escapeHtml(row.path)}">
+      <span class="name">\${escapeHtml(row.name)}</span>
+      <span class="reason"><i class="codicon codicon-warning"></i> \${escapeHtml(reason)}</span>
+    </div>\`;
+  }
+  if (row.ahead === 0 && row.behind === 0 && row.files.length === 0) {
+    return \`<div class="repo identical" title="\${escapeHtml(row.path)}">
+      <span class="name">\${escapeHtml(row.name)}</span> <span>identical</span>
+    </div>\`;
+  }
+  return \`<details class="repo" title="\${escapeHtml(row.path)}">
+    <summary>
+      <span class="name">\${escapeHtml(row.name)}</span>
+      <span class="counts"><span class="ahead">↑\${row.ahead}</span> <span class="behind">↓\${row.behind}</span></span>
+      <span class="meta">\${row.files.length} file(s) changed</span>
+    </summary>
+    <div class="body">
+      \${renderCommits('In ' + compare + ', not in ' + base, row.aheadCommits, row.ahead)}
+      \${renderCommits('In ' + base + ', not in ' + compare, row.behindCommits, row.behind)}
+      \${renderFiles(row.files)}
+    </div>
+  </details>\`;
+}
+
+document.getElementById('swapBtn').addEventListener('click', () => {
+  vscode.postMessage({ type: 'swap' });
+});
+
+document.getElementById('refreshBtn').addEventListener('click', () => {
+  vscode.postMessage({ type: 'refresh' });
+});
+
+document.getElementById('closeBtn').addEventListener('click', () => {
+  vscode.postMessage({ type: 'close' });
+});
+
+window.addEventListener('message', event => {
+  const message = event.data;
+  if (message.type !== 'init') {
+    return;
+  }
+  titleEl.textContent = message.compare + ' compared with ' + message.base;
+  const skipped = message.rows.filter(r => r.missing.length > 0 || r.error);
+  const compared = message.rows.filter(r => r.missing.length === 0 && !r.error);
+  const identical = compared.filter(r => r.ahead === 0 && r.behind === 0 && r.files.length === 0);
+  summaryEl.textContent = \`↑ commits in \${message.compare} but not \${message.base}, ↓ the other way round — \${compared.length - identical.length} differ · \${identical.length} identical · \${skipped.length} skipped\`;
+  // Skipped repositories first so a missing branch is not overlooked
+  rowsEl.innerHTML = [...skipped, ...compared]
+    .map(row => renderRow(row, message.base, message.compare))
+    .join('');
+});
+
+vscode.postMessage({ type: 'ready' });
+    `;
+  }
+
+}
+
+export function getNonce() {
+  let text = "";
+  const possible =
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  for (let i = 0; i < 32; i++) {
+    text += possible.charAt(Math.floor(Math.random() * possible.length));
+  }
+  return text;
 }
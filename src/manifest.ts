@@ -0,0 +1,168 @@
+import * as vscode from "vscode";
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import * as yaml from "js-yaml";
+import { toPosix } from "./glob";
+import { validateBranchName, validateRemoteURL } from "./validators";
+
+/** One repository entry of a `.multirepo.json` / `.multirepo.yaml` manifest. */
+export interface ManifestRepo {
+  name: string;
+  /** Relative to the manifest's folder; defaults to `name`. */
+  path: string;
+  url?: string;
+  defaultBranch?: string;
+  /** Group tags; each tag becomes a repository group. */
+  groups: string[];
+}
+
+export interface ResolvedManifestRepo extends ManifestRepo {
+  absolutePath: string;
+  manifestFile: string;
+}
+
+export const MANIFEST_FILES = [".multirepo.json", ".multirepo.yaml", ".multirepo.yml"];
+
+/**
+ * Parses manifest content (`{ "repos": [...] }`). Throws with a message
+ * naming the offending entry when the manifest is malformed.
+ */
+export function parseManifest(content: string, fileName: string): ManifestRepo[] {
+  const data: any = fileName.endsWith(".json") ? JSON.parse(content) : yaml.load(content);
+  if (!data || !Array.isArray(data.repos)) {
+    throw new Error(`${fileName}: expected a "repos" list`);
+  }
+
+  const seen = new Set<string>();
+  return data.repos.map((entry: any, index: number): ManifestRepo => {
+    const where = `${fileName}: repos[${index}]`;
+    if (!entry || typeof entry.name !== "string" || !entry.name.trim()) {
+      throw new Error(`${where} needs a "name"`);
+    }
+    const name: string = entry.name.trim();
+    const repoPath = entry.path ?? name;
+    if (typeof repoPath !== "string" || path.isAbsolute(repoPath) || toPosix(repoPath).split("/").includes("..")) {
+      throw new Error(`${where} ("${entry.name}"): "path" must be relative to the manifest folder`);
+    }
+    if (entry.url !== undefined) {
+      const validation = validateRemoteURL(String(entry.url));
+      if (!validation.valid) {
+        throw new Error(`${where} ("${entry.name}"): ${validation.error}`);
+      }
+    }
+    if (entry.defaultBranch !== undefined) {
+      const validation = validateBranchName(String(entry.defaultBranch));
+      if (!validation.valid) {
+        throw new Error(`${where} ("${entry.name}"): ${validation.error}`);
+      }
+    }
+    if (entry.groups !== undefined && !(Array.isArray(entry.groups) && entry.groups.every((g: unknown) => typeof g === "string"))) {
+      throw new Error(`${where} ("${entry.name}"): "groups" must be a list of names`);
+    }
+    if (seen.has(name)) {
+      throw new Error(`${where}: duplicate name "${name}"`);
+    }
+    seen.add(name);
+
+    return {
+      name,
+      path: toPosix(repoPath),
+      url: entry.url,
+      defaultBranch: entry.defaultBranch,
+      groups: entry.groups ?? [],
+    };
+  });
+}
+
+/** Group tag → absolute repository paths, in the form group patterns accept. */
+export function manifestGroups(entries: readonly ResolvedManifestRepo[]): Record<string, string[]> {
+  const groups: Record<string, string[]> = {};
+  for (const entry of entries) {
+    for (const group of entry.groups) {
+      (groups[group] ??= []).push(toPosix(entry.absolutePath));
+    }
+  }
+  return groups;
+}
+
+/** Reads a manifest file, resolving entry paths against its folder. */
+export async function readManifestFile(manifestFile: string): Promise<ResolvedManifestRepo[]> {
+  const content = await fs.readFile(manifestFile, "utf-8");
+  const folder = path.dirname(manifestFile);
+  return parseManifest(content, path.basename(manifestFile)).map((entry) => ({
+    ...entry,
+    absolutePath: path.join(folder, entry.path),
+    manifestFile,
+  }));
+}
+
+async function readManifest(folder: string): Promise<ResolvedManifestRepo[] | undefined> {
+  for (const fileName of MANIFEST_FILES) {
+    const manifestFile = path.join(folder, fileName);
+    try {
+      await fs.access(manifestFile);
+    } catch {
+      continue;
+    }
+    return readManifestFile(manifestFile);
+  }
+  return undefined;
+}
+
+/**
+ * Reads the manifest at the root of each workspace folder (the first of
+ * `MANIFEST_FILES` found) and reloads it when it changes.
+ */
+export class ManifestService implements vscode.Disposable {
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  private entries?: Promise<ResolvedManifestRepo[]>;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly output: vscode.OutputChannel) {
+    const watcher = vscode.workspace.createFileSystemWatcher("**/.multirepo.{json,yaml,yml}");
+    const reload = () => {
+      this.entries = undefined;
+      this._onDidChange.fire();
+    };
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(reload),
+      watcher.onDidChange(reload),
+      watcher.onDidDelete(reload),
+      vscode.workspace.onDidChangeWorkspaceFolders(reload),
+      this._onDidChange,
+    );
+  }
+
+  /** Entries of every workspace folder's manifest; malformed manifests are reported and skipped. */
+  getEntries(): Promise<ResolvedManifestRepo[]> {
+    this.entries ??= this.load();
+    return this.entries;
+  }
+
+  /** Manifest entry for the repository at `repoPath`, if any. */
+  async find(repoPath: string): Promise<ResolvedManifestRepo | undefined> {
+    const entries = await this.getEntries();
+    return entries.find((entry) => path.relative(entry.absolutePath, repoPath) === "");
+  }
+
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+  }
+
+  private async load(): Promise<ResolvedManifestRepo[]> {
+    const entries: ResolvedManifestRepo[] = [];
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      try {
+        entries.push(...(await readManifest(folder.uri.fsPath)) ?? []);
+      } catch (e: any) {
+        const message = e.message || String(e);
+        this.output.appendLine(`❌ [${folder.name}] Manifest: ${message}`);
+        vscode.window.showWarningMessage(`⚠️ Ignoring invalid repository manifest in ${folder.name}: ${message}`);
+      }
+    }
+    return entries;
+  }
+}
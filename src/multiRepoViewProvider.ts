@@ -1,8 +1,10 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import { simpleGit } from "simple-git";
-import { getAllGitRepos } from "./repoDiscovery";
-import { HtmlGenerator } from "./htmlGenerator";
+import { RepoDiscoveryService } from "./repoDiscovery";
+import { GitClient, GitOperationResult } from "./gitClient";
+import { isAutoStashEnabled, withAutoStash } from "./autoStash";
+import { RepoGroupManager, getGroups } from "./repoGroups";
+import { HtmlGenerator, getNonce } from "./htmlGenerator";
 
 export class MultiRepoViewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = "multi-repo-git-view";
@@ -12,6 +14,9 @@ export class MultiRepoViewProvider implements vscode.WebviewViewProvider {
   constructor(
     private readonly _extensionUri: vscode.Uri,
     private readonly _output: vscode.OutputChannel,
+    private readonly _git: GitClient,
+    private readonly _groups: RepoGroupManager,
+    private readonly _discovery: RepoDiscoveryService,
   ) {}
 
   public resolveWebviewView(
@@ -45,11 +50,16 @@ export class MultiRepoViewProvider implements vscode.WebviewViewProvider {
       },
     );
 
+    const groupChangeListener = this._groups.onDidChangeActiveGroup(() =>
+      this._postGroups(),
+    );
+
     let disposed = false;
 
     webviewView.onDidDispose(() => {
       disposed = true;
       configChangeListener.dispose();
+      groupChangeListener.dispose();
       this._view = undefined;
     });
 
@@ -78,14 +88,36 @@ export class MultiRepoViewProvider implements vscode.WebviewViewProvider {
         case "checkoutTag":
           if (!disposed) {await this._checkoutTag(data.repoPath, data.tagName);}
           break;
+        case "ready":
+          this._postGroups();
+          break;
+        case "selectGroup":
+          await this._groups.setActiveGroup(data.group || undefined);
+          break;
       }
     });
   }
 
+  private _postGroups() {
+    this._view?.webview.postMessage({
+      type: "groups",
+      groups: Object.keys(getGroups()),
+      active: this._groups.activeGroup ?? "",
+    });
+  }
+
+  // Repositories in the active group; searches are scoped like bulk commands
+  private async _getRepoPaths(): Promise<string[]> {
+    const repos = (await this._discovery.getRepositories()).map((repo) => ({
+      name: path.basename(repo.path),
+      path: repo.path,
+    }));
+    return this._groups.filter(repos).map((repo) => repo.path);
+  }
+
   public async updateRepoState(repoPath: string) {
     try {
-      const git = simpleGit(repoPath);
-      const local = await git.branchLocal();
+      const local = await this._git.branchLocal(repoPath);
       const currentBranch = local.current;
       this._view?.webview.postMessage({
         type: "branchUpdated",
@@ -98,14 +130,19 @@ export class MultiRepoViewProvider implements vscode.WebviewViewProvider {
   }
 
   private async _checkoutBranch(repoPath: string, branchName: string) {
-    try {
-      const git = simpleGit(repoPath);
-      const repoName = path.basename(repoPath);
-      this._output.appendLine(`\n=== ${repoName} » Checkout ${branchName} ===`);
+    const repoName = path.basename(repoPath);
+    this._output.appendLine(`\n=== ${repoName} » Checkout ${branchName} ===`);
 
-      await git.checkout(branchName);
-
-      this._output.appendLine(`✅ Checked out ${branchName}.`);
+    const checkout = () => this._git.checkout(repoPath, branchName);
+    let result: GitOperationResult;
+    try {
+      result = isAutoStashEnabled()
+        ? await withAutoStash(this._git, repoPath, `Checkout ${branchName}`, checkout)
+        : await checkout();
+    } catch (e: any) {
+      result = { success: false, message: `Checkout ${branchName} failed`, error: e.message || String(e) };
+    }
+    if (result.success) {
       vscode.window.showInformationMessage(
         `✅ Checked out ${branchName} in ${repoName}`,
       );
@@ -116,31 +153,27 @@ export class MultiRepoViewProvider implements vscode.WebviewViewProvider {
         repoPath,
         branchName,
       });
-    } catch (e: any) {
-      const errorMsg = e.message || String(e);
-      this._output.appendLine(`❌ Error: ${errorMsg}`);
+    } else {
       vscode.window.showErrorMessage(
-        `❌ Failed to checkout ${branchName}: ${errorMsg}`,
+        `❌ Failed to checkout ${branchName}: ${result.error}`,
       );
+      // The checkout itself may have succeeded when only re-applying the auto-stash failed
+      await this.updateRepoState(repoPath);
     }
   }
 
   private async _checkoutTag(repoPath: string, tagName: string) {
-    try {
-      const git = simpleGit(repoPath);
-      const repoName = path.basename(repoPath);
-      this._output.appendLine(`\n=== ${repoName} » Checkout tag ${tagName} ===`);
-
-      await git.checkout(tagName);
+    const repoName = path.basename(repoPath);
+    this._output.appendLine(`\n=== ${repoName} » Checkout tag ${tagName} ===`);
 
-      this._output.appendLine(`Checked out tag ${tagName}.`);
+    const result = await this._git.checkout(repoPath, tagName);
+    if (result.success) {
       vscode.window.showInformationMessage(
         `Checked out tag ${tagName} in ${repoName}`,
       );
-    } catch (e: any) {
-      this._output.appendLine(`Error: ${e.message || e}`);
+    } else {
       vscode.window.showErrorMessage(
-        `Failed to checkout tag ${tagName}: ${e.message || e}`,
+        `Failed to checkout tag ${tagName}: ${result.error}`,
       );
     }
   }
@@ -151,7 +184,7 @@ export class MultiRepoViewProvider implements vscode.WebviewViewProvider {
     }
     this._view?.webview.postMessage({ type: "started" });
 
-    const repos = await getAllGitRepos();
+    const repos = await this._getRepoPaths();
     const results: {
       name: string;
       path: string;
@@ -162,8 +195,7 @@ export class MultiRepoViewProvider implements vscode.WebviewViewProvider {
     await Promise.all(
       repos.map(async (repoPath) => {
         try {
-          const git = simpleGit(repoPath);
-          const local = await git.branchLocal();
+          const local = await this._git.branchLocal(repoPath);
           const currentBranch = local.current;
           const matches: { label: string; value: string; type: "branch" }[] =
             [];
@@ -175,7 +207,7 @@ export class MultiRepoViewProvider implements vscode.WebviewViewProvider {
               matches.push({ label: b, value: b, type: "branch" });
             });
 
-          const remotes = await git.branch(["-r"]);
+          const remotes = await this._git.branches(repoPath, ["-r"]);
           // Find all remote branches
           remotes.all
             .filter((b) => b.includes(query))
@@ -218,7 +250,7 @@ export class MultiRepoViewProvider implements vscode.WebviewViewProvider {
     }
     this._view?.webview.postMessage({ type: "started" });
 
-    const repos = await getAllGitRepos();
+    const repos = await this._getRepoPaths();
     const results: {
       name: string;
       path: string;
@@ -229,12 +261,11 @@ export class MultiRepoViewProvider implements vscode.WebviewViewProvider {
     await Promise.all(
       repos.map(async (repoPath) => {
         try {
-          const git = simpleGit(repoPath);
-          const local = await git.branchLocal();
+          const local = await this._git.branchLocal(repoPath);
           const currentBranch = local.current;
           const matches: { label: string; value: string; type: "tag" }[] = [];
 
-          const tags = await git.tags();
+          const tags = await this._git.tags(repoPath);
           tags.all
             .filter((t) => t.includes(query))
             .forEach((t) => {
@@ -259,14 +290,13 @@ export class MultiRepoViewProvider implements vscode.WebviewViewProvider {
   }
 
   private async _pickBranchFilter() {
-    const repos = await getAllGitRepos();
+    const repos = await this._getRepoPaths();
     const allBranches = new Set<string>();
 
     await Promise.all(
       repos.map(async (repoPath) => {
         try {
-          const git = simpleGit(repoPath);
-          const branches = await git.branch();
+          const branches = await this._git.branches(repoPath);
           branches.all.forEach((b) => {
             let name = b;
             if (name.startsWith("remotes/")) {
@@ -319,7 +349,7 @@ export class MultiRepoViewProvider implements vscode.WebviewViewProvider {
     }
     this._view?.webview.postMessage({ type: "started" });
 
-    const repos = await getAllGitRepos();
+    const repos = await this._getRepoPaths();
     const results: {
       name: string;
       path: string;
@@ -338,8 +368,7 @@ export class MultiRepoViewProvider implements vscode.WebviewViewProvider {
     await Promise.all(
       repos.map(async (repoPath) => {
         try {
-          const git = simpleGit(repoPath);
-          const local = await git.branchLocal();
+          const local = await this._git.branchLocal(repoPath);
           const currentBranch = local.current;
 
           const logOptions: string[] = ["--all"];
@@ -374,7 +403,7 @@ export class MultiRepoViewProvider implements vscode.WebviewViewProvider {
           }
 
           // Search for commit message
-          const log = await git.log(logOptions);
+          const log = await this._git.log(repoPath, logOptions);
           if (log.total > 0) {
             const matches = log.all.map((commit) => ({
               type: "commit" as const,
@@ -401,13 +430,3 @@ export class MultiRepoViewProvider implements vscode.WebviewViewProvider {
     this._view?.webview.postMessage({ type: "results", results });
   }
 }
-
-function getNonce() {
-  let text = "";
-  const possible =
-    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
-  for (let i = 0; i < 32; i++) {
-    text += possible.charAt(Math.floor(Math.random() * possible.length));
-  }
-  return text;
-} 
@@ -0,0 +1,139 @@
+import * as vscode from "vscode";
+import { HtmlGenerator, getNonce } from "./htmlGenerator";
+
+export type RepoRunState = "pending" | "running" | "ok" | "failed" | "skipped";
+
+export interface RepoRunRow {
+  name: string;
+  path: string;
+  state: RepoRunState;
+  durationMs?: number;
+  error?: string;
+  output?: string;
+}
+
+/**
+ * Webview panel listing the state of every repository taking part in the
+ * current bulk operation. A single panel is reused across operations.
+ */
+export class OperationResultsPanel {
+  public static readonly viewType = "multi-repo-git-results";
+
+  private static current?: OperationResultsPanel;
+
+  private readonly rows = new Map<string, RepoRunRow>();
+  private operationName = "";
+  private completed = false;
+  private ready = false;
+
+  private constructor(
+    private readonly panel: vscode.WebviewPanel,
+    extensionUri: vscode.Uri,
+    private readonly output: vscode.OutputChannel,
+  ) {
+    panel.webview.html = HtmlGenerator.generateResultsPanelHtml(
+      panel.webview,
+      extensionUri,
+      getNonce(),
+    );
+
+    panel.onDidDispose(() => {
+      if (OperationResultsPanel.current === this) {
+        OperationResultsPanel.current = undefined;
+      }
+    });
+
+    panel.webview.onDidReceiveMessage((data) => {
+      switch (data.type) {
+        case "ready":
+          this.ready = true;
+          this.postAll();
+          break;
+        case "revealOutput":
+          this.output.show(true);
+          break;
+        case "exportResult":
+          vscode.commands.executeCommand("multi-repo-git-commands.exportLastResult");
+          break;
+      }
+    });
+  }
+
+  public static show(
+    extensionUri: vscode.Uri,
+    output: vscode.OutputChannel,
+  ): OperationResultsPanel {
+    if (OperationResultsPanel.current) {
+      OperationResultsPanel.current.panel.reveal(undefined, true);
+      return OperationResultsPanel.current;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      OperationResultsPanel.viewType,
+      "Multi Repo Git: Results",
+      { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [extensionUri],
+      },
+    );
+    OperationResultsPanel.current = new OperationResultsPanel(
+      panel,
+      extensionUri,
+      output,
+    );
+    return OperationResultsPanel.current;
+  }
+
+  public start(operationName: string, repos: { name: string; path: string }[]) {
+    this.operationName = operationName;
+    this.completed = false;
+    this.rows.clear();
+    for (const repo of repos) {
+      this.rows.set(repo.path, {
+        name: repo.name,
+        path: repo.path,
+        state: "pending",
+      });
+    }
+    this.panel.title = `Multi Repo Git: ${operationName}`;
+    this.postAll();
+  }
+
+  public update(repoPath: string, changes: Partial<Omit<RepoRunRow, "name" | "path">>) {
+    const row = this.rows.get(repoPath);
+    if (!row) {
+      return;
+    }
+    Object.assign(row, changes);
+    if (this.ready) {
+      this.panel.webview.postMessage({ type: "update", row });
+    }
+  }
+
+  /** Marks every repository that never started as skipped. */
+  public finish() {
+    for (const row of this.rows.values()) {
+      if (row.state === "pending") {
+        this.update(row.path, { state: "skipped" });
+      }
+    }
+    this.completed = true;
+    if (this.ready) {
+      this.panel.webview.postMessage({ type: "completed" });
+    }
+  }
+
+  private postAll() {
+    if (!this.ready) {
+      return;
+    }
+    this.panel.webview.postMessage({
+      type: "init",
+      operationName: this.operationName,
+      completed: this.completed,
+      rows: Array.from(this.rows.values()),
+    });
+  }
+}
@@ -0,0 +1,204 @@
+import * as vscode from "vscode";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { RepoInfo } from "./extension";
+import { GitClient, PullStrategy } from "./gitClient";
+import { RepoState, readRepoState } from "./dryRun";
+import { getConcurrency, runWithConcurrency } from "./bulkOperation";
+
+export type PreflightOperation = "pull" | "push";
+
+export type PreflightCondition = "detachedHead" | "noUpstream" | "dirtyTree" | "operationInProgress" | "diverged";
+
+/** `autoStash` only applies to `dirtyTree`. */
+export type PreflightPolicy = "proceed" | "autoStash" | "prompt" | "skip" | "abort";
+
+export interface PreflightFinding {
+  condition: PreflightCondition;
+  detail: string;
+}
+
+/** Which repositories to leave out (with the reason) and which to run with auto-stash. */
+export interface PreflightPlan {
+  skip: Map<string, string>;
+  autoStash: Set<string>;
+}
+
+export const DEFAULT_PREFLIGHT_POLICIES: Record<PreflightCondition, PreflightPolicy> = {
+  detachedHead: "skip",
+  noUpstream: "skip",
+  dirtyTree: "prompt",
+  operationInProgress: "skip",
+  diverged: "prompt",
+};
+
+// Strictest first: when several conditions apply, the strictest policy wins
+const POLICY_ORDER: PreflightPolicy[] = ["abort", "skip", "prompt", "autoStash", "proceed"];
+
+const IN_PROGRESS_MARKERS: [string, string][] = [
+  ["rebase-merge", "rebase"],
+  ["rebase-apply", "rebase"],
+  ["MERGE_HEAD", "merge"],
+  ["CHERRY_PICK_HEAD", "cherry-pick"],
+  ["REVERT_HEAD", "revert"],
+];
+
+export function getPreflightPolicies(): Record<PreflightCondition, PreflightPolicy> {
+  const configured = vscode.workspace
+    .getConfiguration("multiRepoGit")
+    .get<Partial<Record<PreflightCondition, PreflightPolicy>>>("preflight", {});
+  return { ...DEFAULT_PREFLIGHT_POLICIES, ...configured };
+}
+
+/** Rebase, merge, cherry-pick or revert the repository is in the middle of, if any. */
+export async function readOperationInProgress(client: GitClient, repoPath: string): Promise<string | undefined> {
+  const gitPaths = await client.run(
+    repoPath,
+    "query",
+    (git) => git.raw(["rev-parse", ...IN_PROGRESS_MARKERS.flatMap(([marker]) => ["--git-path", marker])]),
+    { record: false },
+  );
+  const paths = gitPaths.split("\n").filter(Boolean);
+  for (const [index, [, operation]] of IN_PROGRESS_MARKERS.entries()) {
+    try {
+      await fs.access(path.resolve(repoPath, paths[index]));
+      return operation;
+    } catch {
+      // not in progress
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Conditions that make `operation` fail or do something unexpected in a
+ * repository. Only a rebase pull refuses to run on a dirty tree.
+ */
+export function findPreflightIssues(
+  state: RepoState,
+  inProgress: string | undefined,
+  operation: PreflightOperation,
+  strategy: PullStrategy = "rebase",
+): PreflightFinding[] {
+  const findings: PreflightFinding[] = [];
+  if (inProgress) {
+    findings.push({ condition: "operationInProgress", detail: `${inProgress} in progress` });
+  }
+  if (!state.branch) {
+    findings.push({ condition: "detachedHead", detail: "detached HEAD" });
+  } else if (!state.upstream) {
+    findings.push({ condition: "noUpstream", detail: `${state.branch} has no upstream branch` });
+  }
+  if (operation === "pull" && strategy === "rebase" && state.changed > 0) {
+    findings.push({ condition: "dirtyTree", detail: `${state.changed} uncommitted change(s)` });
+  }
+  if (operation === "pull" && state.ahead > 0 && state.behind > 0) {
+    findings.push({ condition: "diverged", detail: `diverged ↑${state.ahead} ↓${state.behind}` });
+  } else if (operation === "push" && state.behind > 0) {
+    findings.push({ condition: "diverged", detail: `behind ${state.upstream} by ${state.behind}` });
+  }
+  return findings;
+}
+
+/** The policy that applies to a repository: the strictest of its findings'. */
+export function resolvePolicy(
+  findings: PreflightFinding[],
+  policies: Record<PreflightCondition, PreflightPolicy>,
+): PreflightPolicy {
+  let resolved: PreflightPolicy = "proceed";
+  for (const finding of findings) {
+    let policy = policies[finding.condition];
+    if (policy === "autoStash" && finding.condition !== "dirtyTree") {
+      policy = "proceed";
+    }
+    if (POLICY_ORDER.indexOf(policy) < POLICY_ORDER.indexOf(resolved)) {
+      resolved = policy;
+    }
+  }
+  return resolved;
+}
+
+function describe(findings: PreflightFinding[]): string {
+  return findings.map((finding) => finding.detail).join(", ");
+}
+
+/**
+ * Checks every repository before a pull or push and applies the configured
+ * policies (`overrides` win over the settings). Asks once about all
+ * repositories whose policy is `prompt`. `strategyFor` gives each
+ * repository's pull strategy.
+ * Returns `undefined` when the operation is aborted.
+ */
+export async function runPreflight(
+  client: GitClient,
+  repos: RepoInfo[],
+  operation: PreflightOperation,
+  overrides: Partial<Record<PreflightCondition, PreflightPolicy>> = {},
+  strategyFor: (repo: RepoInfo) => PullStrategy = () => "rebase",
+): Promise<PreflightPlan | undefined> {
+  const policies = { ...getPreflightPolicies(), ...overrides };
+  const plan: PreflightPlan = { skip: new Map(), autoStash: new Set() };
+  const aborting: string[] = [];
+  const prompting: { repo: RepoInfo; findings: PreflightFinding[] }[] = [];
+
+  await runWithConcurrency(
+    repos,
+    getConcurrency(),
+    async (repo) => {
+      let findings: PreflightFinding[];
+      try {
+        const [state, inProgress] = await Promise.all([
+          readRepoState(client, repo.path),
+          readOperationInProgress(client, repo.path),
+        ]);
+        findings = findPreflightIssues(state, inProgress, operation, strategyFor(repo));
+      } catch {
+        return; // the operation itself reports unreadable repositories
+      }
+      switch (resolvePolicy(findings, policies)) {
+        case "abort":
+          aborting.push(`${repo.name}: ${describe(findings)}`);
+          break;
+        case "skip":
+          plan.skip.set(repo.path, describe(findings));
+          break;
+        case "prompt":
+          prompting.push({ repo, findings });
+          break;
+        case "autoStash":
+          plan.autoStash.add(repo.path);
+          break;
+      }
+    },
+  );
+
+  if (aborting.length > 0) {
+    vscode.window.showErrorMessage(`❌ ${operation === "pull" ? "Pull" : "Push"} aborted, nothing was run. ${aborting.sort().join("; ")}`);
+    return undefined;
+  }
+
+  if (prompting.length > 0) {
+    prompting.sort((a, b) => a.repo.name.localeCompare(b.repo.name));
+    const choice = await vscode.window.showWarningMessage(
+      `${prompting.length} repo(s) need attention before ${operation === "pull" ? "pulling" : "pushing"}.`,
+      {
+        modal: true,
+        detail: prompting.map(({ repo, findings }) => `${repo.name}: ${describe(findings)}`).join("\n")
+          + (operation === "pull" ? "\n\nContinue pulls them anyway, auto-stashing uncommitted changes." : "\n\nContinue pushes them anyway."),
+      },
+      "Continue",
+      "Skip Them",
+    );
+    if (!choice) {
+      return undefined;
+    }
+    for (const { repo, findings } of prompting) {
+      if (choice === "Skip Them") {
+        plan.skip.set(repo.path, describe(findings));
+      } else if (findings.some((finding) => finding.condition === "dirtyTree")) {
+        plan.autoStash.add(repo.path);
+      }
+    }
+  }
+  return plan;
+}
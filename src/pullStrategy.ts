@@ -0,0 +1,66 @@
+import * as vscode from "vscode";
+import { PullStrategy } from "./gitClient";
+import { groupsOf } from "./repoGroups";
+
+export const PULL_STRATEGIES: readonly PullStrategy[] = ["rebase", "merge", "ff-only"];
+
+const STRATEGY_DETAILS: Record<PullStrategy, string> = {
+  rebase: "Replay local commits on top of the upstream branch (git pull --rebase)",
+  merge: "Merge the upstream branch, creating a merge commit when both sides have commits (git pull --no-rebase)",
+  "ff-only": "Only fast-forward; repositories with local commits are reported as diverged (git pull --ff-only)",
+};
+
+function isPullStrategy(value: unknown): value is PullStrategy {
+  return PULL_STRATEGIES.includes(value as PullStrategy);
+}
+
+/** `multiRepoGit.pullStrategy`, falling back to `rebase` for unknown values. */
+export function getDefaultPullStrategy(): PullStrategy {
+  const configured = vscode.workspace
+    .getConfiguration("multiRepoGit")
+    .get<string>("pullStrategy", "rebase");
+  return isPullStrategy(configured) ? configured : "rebase";
+}
+
+/** `multiRepoGit.groupPullStrategies`: strategy per repository group. */
+export function getGroupPullStrategies(): Record<string, PullStrategy> {
+  const configured = vscode.workspace
+    .getConfiguration("multiRepoGit")
+    .get<Record<string, string>>("groupPullStrategies", {});
+  return Object.fromEntries(
+    Object.entries(configured).filter((entry): entry is [string, PullStrategy] => isPullStrategy(entry[1])),
+  );
+}
+
+/**
+ * Strategy for a repository in `groups` (in configuration order): the first
+ * of its groups with a strategy of its own wins over `fallback`.
+ */
+export function resolvePullStrategy(
+  groups: readonly string[],
+  groupStrategies: Readonly<Record<string, PullStrategy>>,
+  fallback: PullStrategy,
+): PullStrategy {
+  const group = groups.find((name) => groupStrategies[name] !== undefined);
+  return group ? groupStrategies[group] : fallback;
+}
+
+export function getPullStrategy(repoPath: string): PullStrategy {
+  return resolvePullStrategy(groupsOf(repoPath), getGroupPullStrategies(), getDefaultPullStrategy());
+}
+
+/** Asks for the strategy of a single pull; the configured default is listed first. */
+export async function pickPullStrategy(): Promise<PullStrategy | undefined> {
+  const fallback = getDefaultPullStrategy();
+  const ordered = [fallback, ...PULL_STRATEGIES.filter((strategy) => strategy !== fallback)];
+  const pick = await vscode.window.showQuickPick(
+    ordered.map((strategy) => ({
+      label: strategy,
+      description: strategy === fallback ? "default" : undefined,
+      detail: STRATEGY_DETAILS[strategy],
+      strategy,
+    })),
+    { placeHolder: "Pull strategy for all selected repositories" },
+  );
+  return pick?.strategy;
+}
@@ -0,0 +1,211 @@
+import * as vscode from "vscode";
+import { GitClient, PushOptions } from "./gitClient";
+import { DryRunOutcome, predictPush, readRepoState, refExists } from "./dryRun";
+
+/** How one Push runs: `remote` overrides each branch's upstream remote. */
+export interface PushChoice {
+  remote?: string;
+  setUpstream: boolean;
+  forceWithLease: boolean;
+  tags: boolean;
+}
+
+/** Where a repository's current branch would be pushed, and how far apart the two are. */
+export interface PushTarget {
+  /** `undefined` when HEAD is detached. */
+  branch?: string;
+  /** `undefined` when there is no remote to push to. */
+  remote?: string;
+  /** Remote-tracking name of the destination, e.g. `origin/feature`. */
+  remoteBranch?: string;
+  /** Whether the destination is the branch's upstream. */
+  tracking: boolean;
+  /** Whether the destination branch exists on the remote (as of the last fetch). */
+  exists: boolean;
+  ahead: number;
+  behind: number;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+export function getPushChoice(): PushChoice {
+  return {
+    setUpstream: vscode.workspace.getConfiguration("multiRepoGit").get<boolean>("setUpstreamOnPush", true),
+    forceWithLease: false,
+    tags: false,
+  };
+}
+
+function getDefaultRemote(): string {
+  return vscode.workspace.getConfiguration("multiRepoGit").get<string>("defaultRemote", "origin");
+}
+
+export async function listRemotes(client: GitClient, repoPath: string): Promise<string[]> {
+  const remotes = await client.run(repoPath, "query", (git) => git.raw(["remote"]), { record: false });
+  return remotes.split("\n").map((remote) => remote.trim()).filter(Boolean);
+}
+
+/**
+ * The remote to push to: `preferred` if given, else the upstream's remote,
+ * else `defaultRemote` or the only remote the repository has.
+ */
+export function chooseRemote(
+  remotes: readonly string[],
+  upstreamRemote: string | undefined,
+  defaultRemote: string,
+  preferred?: string,
+): string | undefined {
+  if (preferred) {
+    return remotes.includes(preferred) ? preferred : undefined;
+  }
+  if (upstreamRemote && remotes.includes(upstreamRemote)) {
+    return upstreamRemote;
+  }
+  if (remotes.includes(defaultRemote)) {
+    return defaultRemote;
+  }
+  return remotes.length === 1 ? remotes[0] : undefined;
+}
+
+export async function readPushTarget(client: GitClient, repoPath: string, preferredRemote?: string): Promise<PushTarget> {
+  const git = (args: string[]) =>
+    client.run(repoPath, "query", (g) => g.raw(args), { record: false }).then((out) => out.trim());
+  const state = await readRepoState(client, repoPath);
+  if (!state.branch) {
+    return { tracking: false, exists: false, ahead: 0, behind: 0 };
+  }
+  const branch = state.branch;
+  const upstreamRemote = state.upstream
+    ? (await git(["config", `branch.${branch}.remote`]).catch(() => "")) || undefined
+    : undefined;
+  const remote = chooseRemote(await listRemotes(client, repoPath), upstreamRemote, getDefaultRemote(), preferredRemote);
+  if (!remote) {
+    return { branch, tracking: false, exists: false, ahead: 0, behind: 0 };
+  }
+  if (state.upstream && remote === upstreamRemote) {
+    return { branch, remote, remoteBranch: state.upstream, tracking: true, exists: true, ahead: state.ahead, behind: state.behind };
+  }
+
+  const remoteBranch = `${remote}/${branch}`;
+  if (await refExists(client, repoPath, `refs/remotes/${remoteBranch}`)) {
+    const [behind, ahead] = (await git(["rev-list", "--left-right", "--count", `${remoteBranch}...HEAD`]))
+      .split(/\s+/)
+      .map(Number);
+    return { branch, remote, remoteBranch, tracking: false, exists: true, ahead, behind };
+  }
+  const ahead = Number(await git(["rev-list", "--count", "HEAD", "--not", `--remotes=${remote}`]));
+  return { branch, remote, remoteBranch, tracking: false, exists: false, ahead, behind: 0 };
+}
+
+/** What Push with `choice` would do in a repository; the pre-push summary and dry run both use it. */
+export function predictPushTo(target: PushTarget, choice: PushChoice): DryRunOutcome {
+  if (!target.branch) {
+    return { verdict: "fail", message: "detached HEAD — nothing to push" };
+  }
+  if (!target.remote || !target.remoteBranch) {
+    return { verdict: "fail", message: choice.remote ? `no remote named ${choice.remote}` : "no remote to push to" };
+  }
+  if (target.tracking && !choice.forceWithLease && !choice.tags) {
+    return predictPush({ branch: target.branch, upstream: target.remoteBranch, ahead: target.ahead, behind: target.behind, changed: 0, untracked: 0 });
+  }
+  if (!target.tracking && !choice.remote && !choice.setUpstream) {
+    return { verdict: "fail", message: `push would fail: ${target.branch} has no upstream branch` };
+  }
+  if (target.behind > 0 && !choice.forceWithLease) {
+    return { verdict: "fail", message: `push would be rejected: behind ${target.remoteBranch} by ${target.behind}` };
+  }
+  if (target.exists && target.ahead === 0 && target.behind === 0 && !choice.tags && (target.tracking || !choice.setUpstream)) {
+    return { verdict: "unchanged", message: "nothing to push" };
+  }
+
+  const notes: string[] = [];
+  if (!target.exists) {
+    notes.push("new branch");
+  }
+  if (!target.tracking && choice.setUpstream) {
+    notes.push("sets upstream");
+  }
+  if (choice.tags) {
+    notes.push("with tags");
+  }
+  const verb = target.behind > 0 ? "force-push" : "push";
+  const replacing = target.behind > 0 ? `, replacing ${plural(target.behind, "remote commit")}` : "";
+  return {
+    verdict: "change",
+    message: `would ${verb} ${plural(target.ahead, "commit")} to ${target.remoteBranch}${replacing}${notes.length > 0 ? ` (${notes.join(", ")})` : ""}`,
+  };
+}
+
+/**
+ * Arguments for `GitClient.push`: bare pushes follow the upstream, others
+ * name the remote and branch. `--tags` alone would push only the tags, so
+ * with tags the upstream branch is named too.
+ */
+export function pushOptionsFor(target: PushTarget, choice: PushChoice): PushOptions {
+  const options: PushOptions = { forceWithLease: choice.forceWithLease, tags: choice.tags };
+  if (!target.remote || !target.branch || !target.remoteBranch) {
+    return options;
+  }
+  if (!target.tracking) {
+    options.remote = target.remote;
+    options.branch = target.branch;
+    options.setUpstream = choice.setUpstream;
+  } else if (choice.tags) {
+    options.remote = target.remote;
+    options.branch = `${target.branch}:${target.remoteBranch.slice(target.remote.length + 1)}`;
+  }
+  return options;
+}
+
+/**
+ * One line per repository that would push or fail, e.g. "api: would push 2
+ * commits to origin/feature (new branch, sets upstream)", listing at most
+ * `maxRepos` of them.
+ */
+export function formatPushSummary(rows: { name: string; outcome: DryRunOutcome }[], { maxRepos = 10 } = {}): string {
+  const listed = rows.filter((row) => row.outcome.verdict !== "unchanged");
+  const lines = listed.slice(0, maxRepos).map((row) => `${row.outcome.verdict === "fail" ? "⚠️ " : ""}${row.name}: ${row.outcome.message}`);
+  if (listed.length > maxRepos) {
+    lines.push(`…and ${listed.length - maxRepos} more repos`);
+  }
+  const unchanged = rows.length - listed.length;
+  if (unchanged > 0) {
+    lines.push(`${unchanged} repo(s) with nothing to push`);
+  }
+  return lines.join("\n");
+}
+
+/** Asks for the remote and options of one push; `remotes` are those of the repositories in scope. */
+export async function pickPushChoice(remotes: readonly string[]): Promise<PushChoice | undefined> {
+  const remotePick = await vscode.window.showQuickPick(
+    [
+      { label: "$(git-branch) Upstream", description: `each branch's upstream, ${getDefaultRemote()} for branches without one`, remote: undefined },
+      ...remotes.map((remote) => ({ label: `$(cloud-upload) ${remote}`, description: undefined, remote })),
+    ],
+    { placeHolder: "Remote to push to" },
+  );
+  if (!remotePick) {
+    return undefined;
+  }
+  const defaults = getPushChoice();
+  const picked = await vscode.window.showQuickPick(
+    [
+      { label: "Set upstream", description: "--set-upstream: track the pushed branch", key: "setUpstream", picked: defaults.setUpstream },
+      { label: "Push tags", description: "--tags", key: "tags", picked: false },
+      { label: "Force with lease", description: "--force-with-lease: replace remote commits (asks first)", key: "forceWithLease", picked: false },
+    ],
+    { canPickMany: true, placeHolder: "Push options" },
+  );
+  if (!picked) {
+    return undefined;
+  }
+  const keys = new Set(picked.map((item) => item.key));
+  return {
+    remote: remotePick.remote,
+    setUpstream: keys.has("setUpstream"),
+    forceWithLease: keys.has("forceWithLease"),
+    tags: keys.has("tags"),
+  };
+}
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as path from 'node:path';
 import * as fs from 'node:fs/promises';
 import { simpleGit } from 'simple-git';
+import { IgnoreRule, isIgnored, matchesGlob, parseIgnoreFile, toPosix } from './glob';
 
 export async function isGitRepo(cwd: string): Promise<boolean> {
     try {
@@ -22,7 +23,7 @@ export async function hasDotGit(dir: string): Promise<boolean> {
 }
 
 function shouldSkipEntry(entry: import('node:fs').Dirent, excludeFolders: string[]): boolean {
-    if (!entry.isDirectory()) {
+    if (!entry.isDirectory() && !entry.isSymbolicLink()) {
         return true;
     }
     if (entry.name === '.' || entry.name === '..') {
@@ -34,20 +35,249 @@ function shouldSkipEntry(entry: import('node:fs').Dirent, excludeFolders: string
     return false;
 }
 
-export async function discoverGitRepos(root: string, options: { maxDepth: number; excludeFolders: string[] }): Promise<string[]> {
-    const repos = new Set<string>();
-    type Item = { dir: string; depth: number };
-    const stack: Item[] = [{ dir: root, depth: 0 }];
+export interface DiscoveryOptions {
+    scanNested: boolean;
+    maxDepth: number;
+    excludeFolders: string[];
+    includeSubmodules: boolean;
+    /** Globs relative to the workspace folder; when set, only matching repositories are reported. */
+    include: string[];
+    /** Globs relative to the workspace folder; matching folders are not scanned. */
+    exclude: string[];
+    /** Names of `.gitignore`-style files whose patterns exclude folders from scanning. */
+    ignoreFiles: string[];
+    followSymlinks: boolean;
+}
 
-    while (stack.length > 0) {
-        const { dir, depth } = stack.pop()!;
+/** Discovery settings, including any overrides of the given workspace folder. */
+export function getDiscoveryOptions(folder?: vscode.Uri): DiscoveryOptions {
+    const config = vscode.workspace.getConfiguration('multiRepoGit', folder);
+    return {
+        scanNested: config.get<boolean>('scanNested', true),
+        maxDepth: config.get<number>('maxDepth', 2),
+        excludeFolders: config.get<string[]>('excludeFolders', ['node_modules', '.git', 'dist', 'build', 'out']),
+        includeSubmodules: config.get<boolean>('includeSubmodules', false),
+        include: config.get<string[]>('include', []),
+        exclude: config.get<string[]>('exclude', []),
+        ignoreFiles: config.get<string[]>('ignoreFiles', ['.multirepoignore']),
+        followSymlinks: config.get<boolean>('followSymlinks', false),
+    };
+}
+
+type IgnoreScope = { base: string; rules: IgnoreRule[] };
+
+async function readIgnoreFiles(dir: string, ignoreFiles: string[]): Promise<IgnoreScope[]> {
+    const scopes: IgnoreScope[] = [];
+    for (const name of ignoreFiles) {
+        try {
+            const rules = parseIgnoreFile(await fs.readFile(path.join(dir, name), 'utf-8'));
+            if (rules.length > 0) {
+                scopes.push({ base: dir, rules });
+            }
+        } catch {
+            // no ignore file here
+        }
+    }
+    return scopes;
+}
+
+function isIgnoredByScopes(dir: string, scopes: IgnoreScope[]): boolean {
+    let ignored = false;
+    for (const { base, rules } of scopes) {
+        const relative = path.relative(base, dir);
+        if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+            ignored = isIgnored(relative, rules, ignored);
+        }
+    }
+    return ignored;
+}
+
+// Exclusion by folder name or exclude glob, for a path relative to the workspace folder
+function isExcluded(relative: string, options: DiscoveryOptions): boolean {
+    const posix = toPosix(relative);
+    return options.excludeFolders.includes(path.basename(relative))
+        || options.exclude.some((pattern) => matchesGlob(posix, pattern));
+}
+
+function isIncluded(relative: string, options: DiscoveryOptions): boolean {
+    return options.include.length === 0
+        || options.include.some((pattern) => matchesGlob(toPosix(relative) || '.', pattern));
+}
+
+function isSameOrInside(parent: string, child: string): boolean {
+    const relative = path.relative(parent, child);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+export type RepoKind = 'primary' | 'worktree' | 'submodule';
+
+export interface DiscoveredRepo {
+    path: string;
+    kind: RepoKind;
+    /** Main working tree of a worktree, or superproject of a submodule. */
+    parent?: string;
+}
+
+/**
+ * Classifies a repository whose `.git` is a file (`gitdir: <path>`): linked
+ * worktrees point into `<main>/.git/worktrees/`, submodules into a
+ * `.git/modules/` directory. Anything else (e.g. `--separate-git-dir`) is a
+ * primary repository.
+ */
+export function classifyGitFile(dir: string, content: string): { kind: RepoKind; parent?: string } {
+    const match = /^gitdir:\s*(.+)$/m.exec(content);
+    if (!match) {
+        return { kind: 'primary' };
+    }
+    const gitDir = path.resolve(dir, match[1].trim()).split(path.sep);
+    const dotGit = gitDir.lastIndexOf('.git');
+    if (dotGit > 0 && gitDir[dotGit + 1] === 'worktrees') {
+        return { kind: 'worktree', parent: gitDir.slice(0, dotGit).join(path.sep) || path.sep };
+    }
+    if (gitDir.some((segment, i) => segment === '.git' && gitDir[i + 1] === 'modules')) {
+        return { kind: 'submodule' };
+    }
+    return { kind: 'primary' };
+}
+
+async function findParentRepo(dir: string): Promise<string | undefined> {
+    let current = path.dirname(dir);
+    while (current !== path.dirname(current)) {
+        if (await hasDotGit(current)) {
+            return current;
+        }
+        current = path.dirname(current);
+    }
+    return undefined;
+}
+
+/** Classifies `dir` as a repository, or returns `undefined` when it has no `.git`. */
+export async function classifyRepo(dir: string): Promise<DiscoveredRepo | undefined> {
+    let stat: import('node:fs').Stats;
+    try {
+        stat = await fs.stat(path.join(dir, '.git'));
+    } catch {
+        return undefined;
+    }
+    if (stat.isDirectory()) {
+        return { path: dir, kind: 'primary' };
+    }
+    try {
+        const { kind, parent } = classifyGitFile(dir, await fs.readFile(path.join(dir, '.git'), 'utf-8'));
+        if (kind === 'submodule') {
+            return { path: dir, kind, parent: await findParentRepo(dir) };
+        }
+        return { path: dir, kind, parent };
+    } catch {
+        return { path: dir, kind: 'primary' };
+    }
+}
+
+/** Submodule paths declared in a `.gitmodules` file. */
+export function parseGitmodules(content: string): string[] {
+    const paths: string[] = [];
+    for (const line of content.split(/\r?\n/)) {
+        const match = /^\s*path\s*=\s*(.+?)\s*$/.exec(line);
+        if (match) {
+            paths.push(match[1]);
+        }
+    }
+    return paths;
+}
 
+async function findSubmodules(repo: string): Promise<DiscoveredRepo[]> {
+    let content: string;
+    try {
+        content = await fs.readFile(path.join(repo, '.gitmodules'), 'utf-8');
+    } catch {
+        return [];
+    }
+    const found: DiscoveredRepo[] = [];
+    for (const rel of parseGitmodules(content)) {
+        const dir = path.join(repo, rel);
+        // Submodules that were never initialized have no .git yet
         if (await hasDotGit(dir)) {
-            repos.add(dir);
+            found.push({ path: dir, kind: 'submodule', parent: repo }, ...await findSubmodules(dir));
+        }
+    }
+    return found;
+}
+
+// Linked worktrees of `repo` that are checked out below `root`
+async function findWorktrees(repo: string, root: string): Promise<DiscoveredRepo[]> {
+    const worktreesDir = path.join(repo, '.git', 'worktrees');
+    let names: string[];
+    try {
+        names = await fs.readdir(worktreesDir);
+    } catch {
+        return [];
+    }
+    const found: DiscoveredRepo[] = [];
+    for (const name of names) {
+        try {
+            const gitFile = (await fs.readFile(path.join(worktreesDir, name, 'gitdir'), 'utf-8')).trim();
+            const dir = path.dirname(gitFile);
+            if (isSameOrInside(root, dir) && await hasDotGit(dir)) {
+                found.push({ path: dir, kind: 'worktree', parent: repo });
+            }
+        } catch {
+            // stale worktree entry
+        }
+    }
+    return found;
+}
+
+export async function discoverGitRepos(
+    root: string,
+    options: Pick<DiscoveryOptions, 'maxDepth' | 'excludeFolders'> & Partial<DiscoveryOptions>,
+): Promise<DiscoveredRepo[]> {
+    const resolved: DiscoveryOptions = {
+        scanNested: true,
+        includeSubmodules: false,
+        include: [],
+        exclude: [],
+        ignoreFiles: [],
+        followSymlinks: false,
+        ...options,
+    };
+    const repos = new Map<string, DiscoveredRepo>();
+    // Real paths already walked, so symlink cycles are entered only once
+    const visited = new Set<string>();
+    type Item = { dir: string; depth: number; ignores: IgnoreScope[] };
+    const stack: Item[] = [{ dir: root, depth: 0, ignores: [] }];
+
+    while (stack.length > 0) {
+        const { dir, depth, ignores } = stack.pop()!;
+
+        if (resolved.followSymlinks) {
+            let real: string;
+            try {
+                real = await fs.realpath(dir);
+            } catch {
+                continue;
+            }
+            if (visited.has(real)) {
+                continue;
+            }
+            visited.add(real);
+        }
+
+        const repo = await classifyRepo(dir);
+        if (repo) {
+            if (!repos.has(dir)) {
+                repos.set(dir, repo);
+            }
+            // The walk does not descend into repositories; their submodules
+            // and in-tree worktrees are read from git's own metadata instead
+            const nested = [
+                ...(repo.kind === 'primary' ? await findWorktrees(dir, root) : []),
+                ...(resolved.includeSubmodules ? await findSubmodules(dir) : []),
+            ];
+            nested.forEach((child) => repos.set(child.path, child));
             continue;
         }
 
-        if (depth >= options.maxDepth) {
+        if (depth >= resolved.maxDepth) {
             continue;
         }
 
@@ -58,24 +288,54 @@ export async function discoverGitRepos(root: string, options: { maxDepth: number
             continue;
         }
 
+        const scopes = [...ignores, ...await readIgnoreFiles(dir, resolved.ignoreFiles)];
         for (const entry of entries) {
-            if (shouldSkipEntry(entry, options.excludeFolders)) {
+            if (shouldSkipEntry(entry, resolved.excludeFolders)) {
                 continue;
             }
             const child = path.join(dir, entry.name);
-            stack.push({ dir: child, depth: depth + 1 });
+            if (entry.isSymbolicLink() && !(resolved.followSymlinks && await isDirectory(child))) {
+                continue;
+            }
+            if (isExcluded(path.relative(root, child), resolved) || isIgnoredByScopes(child, scopes)) {
+                continue;
+            }
+            stack.push({ dir: child, depth: depth + 1, ignores: scopes });
         }
     }
 
-    return Array.from(repos);
+    return Array.from(repos.values()).filter((repo) => {
+        const relative = path.relative(root, repo.path);
+        // Worktrees may live outside the folder being scanned
+        if (relative.startsWith('..') || path.isAbsolute(relative)) {
+            return true;
+        }
+        return isIncluded(relative, resolved) && (relative === '' || !isExcluded(relative, resolved));
+    });
 }
 
-export async function getAllGitRepos(): Promise<string[]> {
-    const config = vscode.workspace.getConfiguration('multiRepoGit');
-    const scanNested = config.get<boolean>('scanNested', true);
-    const maxDepth = config.get<number>('maxDepth', 2);
-    const excludeFolders = config.get<string[]>('excludeFolders', ['node_modules', '.git', 'dist', 'build', 'out']);
+async function isDirectory(dir: string): Promise<boolean> {
+    try {
+        return (await fs.stat(dir)).isDirectory();
+    } catch {
+        return false;
+    }
+}
 
+async function scanWorkspaceFolder(root: string, options: DiscoveryOptions): Promise<DiscoveredRepo[]> {
+    if (options.scanNested) {
+        return discoverGitRepos(root, options);
+    }
+    if (!(await isGitRepo(root))) {
+        return [];
+    }
+    return [
+        (await classifyRepo(root)) ?? { path: root, kind: 'primary' },
+        ...(options.includeSubmodules ? await findSubmodules(root) : []),
+    ];
+}
+
+export async function getAllGitRepos(): Promise<string[]> {
     const folders = vscode.workspace.workspaceFolders;
     if (!folders) {
         return [];
@@ -83,15 +343,168 @@ export async function getAllGitRepos(): Promise<string[]> {
 
     const allRepos: string[] = [];
     for (const folder of folders) {
-        const root = folder.uri.fsPath;
-        if (scanNested) {
-            const repos = await discoverGitRepos(root, { maxDepth, excludeFolders });
-            allRepos.push(...repos);
-        } else {
-            if (await isGitRepo(root)) {
-                allRepos.push(root);
+        const repos = await scanWorkspaceFolder(folder.uri.fsPath, getDiscoveryOptions(folder.uri));
+        allRepos.push(...repos.map((repo) => repo.path));
+    }
+    return [...new Set(allRepos)];
+}
+
+/**
+ * Whether a full scan of `root` would report `dir` as a repository, ignoring
+ * other repositories and ignore files: within `maxDepth`, not in or below an
+ * excluded folder, and matching the include patterns.
+ */
+export function isWithinScanScope(root: string, dir: string, options: DiscoveryOptions): boolean {
+    const relative = path.relative(root, dir);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        return false;
+    }
+    if (relative === '') {
+        return true;
+    }
+    if (!options.scanNested) {
+        return false;
+    }
+    const segments = relative.split(path.sep);
+    if (segments.length > options.maxDepth) {
+        return false;
+    }
+    for (let i = 1; i <= segments.length; i++) {
+        if (isExcluded(segments.slice(0, i).join(path.sep), options)) {
+            return false;
+        }
+    }
+    return isIncluded(relative, options);
+}
+
+// Ignore files between `root` and `dir`, as the walk would have read them
+async function isIgnoredByFiles(root: string, dir: string, ignoreFiles: string[]): Promise<boolean> {
+    const scopes: IgnoreScope[] = [];
+    for (let current = root; current !== dir; ) {
+        scopes.push(...await readIgnoreFiles(current, ignoreFiles));
+        const next = path.relative(current, dir).split(path.sep)[0];
+        current = path.join(current, next);
+        if (isIgnoredByScopes(current, scopes)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Caches the repositories of every workspace folder. Folders are scanned once;
+ * afterwards `.git` creation/deletion and workspace folder changes update the
+ * cache incrementally. A full rescan happens only on request or when the
+ * discovery settings change.
+ */
+export class RepoDiscoveryService implements vscode.Disposable {
+    private readonly _onDidChangeRepositories = new vscode.EventEmitter<DiscoveredRepo[]>();
+    readonly onDidChangeRepositories = this._onDidChangeRepositories.event;
+
+    // workspace folder path → repositories found in it
+    private readonly folders = new Map<string, Promise<DiscoveredRepo[]>>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/.git');
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate((uri) => this.onGitDirCreated(path.dirname(uri.fsPath))),
+            watcher.onDidDelete((uri) => this.onGitDirDeleted(path.dirname(uri.fsPath))),
+            vscode.workspace.onDidChangeWorkspaceFolders((e) => {
+                e.removed.forEach((folder) => this.folders.delete(folder.uri.fsPath));
+                this.fireChanged();
+            }),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (
+                    e.affectsConfiguration('multiRepoGit.scanNested')
+                    || e.affectsConfiguration('multiRepoGit.maxDepth')
+                    || e.affectsConfiguration('multiRepoGit.excludeFolders')
+                    || e.affectsConfiguration('multiRepoGit.includeSubmodules')
+                    || e.affectsConfiguration('multiRepoGit.include')
+                    || e.affectsConfiguration('multiRepoGit.exclude')
+                    || e.affectsConfiguration('multiRepoGit.ignoreFiles')
+                    || e.affectsConfiguration('multiRepoGit.followSymlinks')
+                ) {
+                    this.rescan();
+                }
+            }),
+            this._onDidChangeRepositories,
+        );
+    }
+
+    /** All repositories in the workspace, scanning folders not seen yet. */
+    async getRepositories(): Promise<DiscoveredRepo[]> {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        const results = await Promise.all(folders.map((folder) => {
+            const root = folder.uri.fsPath;
+            let repos = this.folders.get(root);
+            if (!repos) {
+                repos = scanWorkspaceFolder(root, getDiscoveryOptions(folder.uri));
+                this.folders.set(root, repos);
+                repos.catch(() => this.folders.delete(root));
+            }
+            return repos;
+        }));
+        const unique = new Map<string, DiscoveredRepo>();
+        results.flat().forEach((repo) => unique.set(repo.path, repo));
+        return Array.from(unique.values());
+    }
+
+    /** Drops the cache and walks every workspace folder again. */
+    async rescan(): Promise<DiscoveredRepo[]> {
+        this.folders.clear();
+        const repos = await this.getRepositories();
+        this._onDidChangeRepositories.fire(repos);
+        return repos;
+    }
+
+    /** Adds a repository created by the extension without waiting for the file watcher. */
+    addRepository(dir: string): Promise<void> {
+        return this.onGitDirCreated(dir);
+    }
+
+    dispose(): void {
+        this.disposables.forEach((d) => d.dispose());
+    }
+
+    private async onGitDirCreated(dir: string): Promise<void> {
+        for (const [root, cached] of this.folders) {
+            const options = getDiscoveryOptions(vscode.Uri.file(root));
+            if (!isWithinScanScope(root, dir, options) || await isIgnoredByFiles(root, dir, options.ignoreFiles)) {
+                continue;
+            }
+            const repos = await cached;
+            if (repos.some((repo) => repo.path === dir)) {
+                continue;
+            }
+            if (repos.some((repo) => isSameOrInside(repo.path, dir) || isSameOrInside(dir, repo.path))) {
+                // A submodule, worktree or enclosing repository: let the walk decide
+                this.folders.set(root, scanWorkspaceFolder(root, options));
+            } else {
+                const repo = await classifyRepo(dir);
+                if (!repo) {
+                    continue;
+                }
+                this.folders.set(root, Promise.resolve([...repos, repo]));
             }
+            this.fireChanged();
         }
     }
-    return [...new Set(allRepos)];
+
+    private async onGitDirDeleted(dir: string): Promise<void> {
+        for (const [root, cached] of this.folders) {
+            const repos = await cached;
+            if (!repos.some((repo) => isSameOrInside(dir, repo.path))) {
+                continue;
+            }
+            // Repositories nested inside the removed one become visible again
+            this.folders.set(root, scanWorkspaceFolder(root, getDiscoveryOptions(vscode.Uri.file(root))));
+            this.fireChanged();
+        }
+    }
+
+    private async fireChanged(): Promise<void> {
+        this._onDidChangeRepositories.fire(await this.getRepositories());
+    }
 }
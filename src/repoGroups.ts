@@ -0,0 +1,280 @@
+import * as vscode from "vscode";
+import * as path from "node:path";
+import { RepoInfo } from "./extension";
+import { matchesGlob, toPosix } from "./glob";
+
+export type RepoGroups = Record<string, string[]>;
+
+const ACTIVE_GROUP_KEY = "multiRepoGit.activeGroup";
+
+// Group tags from the workspace manifest (see manifest.ts)
+let manifestGroups: RepoGroups = {};
+
+/** Groups defined in `multiRepoGit.groups`. */
+export function getConfiguredGroups(): RepoGroups {
+  const config = vscode.workspace.getConfiguration("multiRepoGit");
+  return config.get<RepoGroups>("groups", {});
+}
+
+/** Configured groups merged with the manifest's group tags. */
+export function getGroups(): RepoGroups {
+  const groups: RepoGroups = { ...getConfiguredGroups() };
+  for (const [name, paths] of Object.entries(manifestGroups)) {
+    groups[name] = [...(groups[name] ?? []), ...paths];
+  }
+  return groups;
+}
+
+/**
+ * Paths a group pattern may refer to a repository by: relative to its
+ * workspace folder, prefixed with the folder name, absolute, or its name.
+ */
+export function repoPathCandidates(
+  repoPath: string,
+  folders: readonly { name: string; path: string }[],
+): string[] {
+  const candidates = new Set<string>([toPosix(repoPath), path.basename(repoPath)]);
+  for (const folder of folders) {
+    const relative = path.relative(folder.path, repoPath);
+    if (relative.startsWith("..") || path.isAbsolute(relative)) {
+      continue;
+    }
+    if (relative === "") {
+      candidates.add(folder.name);
+    } else {
+      candidates.add(toPosix(relative));
+      candidates.add(`${folder.name}/${toPosix(relative)}`);
+    }
+  }
+  return Array.from(candidates);
+}
+
+export function repoMatchesPatterns(
+  repoPath: string,
+  patterns: readonly string[],
+  folders: readonly { name: string; path: string }[],
+): boolean {
+  const candidates = repoPathCandidates(repoPath, folders);
+  return patterns.some((pattern) =>
+    candidates.some((candidate) => matchesGlob(candidate, pattern)),
+  );
+}
+
+function workspaceFolderPaths(): { name: string; path: string }[] {
+  return (vscode.workspace.workspaceFolders ?? []).map((folder) => ({
+    name: folder.name,
+    path: folder.uri.fsPath,
+  }));
+}
+
+/** Names of the groups a repository belongs to, in configuration order. */
+export function groupsOf(repoPath: string, groups: RepoGroups = getGroups()): string[] {
+  const folders = workspaceFolderPaths();
+  return Object.entries(groups)
+    .filter(([, patterns]) => repoMatchesPatterns(repoPath, patterns, folders))
+    .map(([name]) => name);
+}
+
+function matchingRepos(repos: RepoInfo[], patterns: readonly string[]): RepoInfo[] {
+  const folders = workspaceFolderPaths();
+  return repos.filter((repo) => repoMatchesPatterns(repo.path, patterns, folders));
+}
+
+/**
+ * Tracks the named repository groups from `multiRepoGit.groups` and the
+ * group bulk commands are currently scoped to.
+ */
+export class RepoGroupManager implements vscode.Disposable {
+  private readonly _onDidChangeActiveGroup = new vscode.EventEmitter<string | undefined>();
+  readonly onDidChangeActiveGroup = this._onDidChangeActiveGroup.event;
+
+  private readonly statusBarItem: vscode.StatusBarItem;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly state: vscode.Memento) {
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      50,
+    );
+    this.statusBarItem.command = "multi-repo-git-commands.selectGroup";
+    this.updateStatusBar();
+    this.statusBarItem.show();
+
+    this.disposables.push(
+      this.statusBarItem,
+      this._onDidChangeActiveGroup,
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("multiRepoGit.groups")) {
+          this.updateStatusBar();
+          this._onDidChangeActiveGroup.fire(this.activeGroup);
+        }
+      }),
+    );
+  }
+
+  /** The active group, or `undefined` when every repository is in scope. */
+  get activeGroup(): string | undefined {
+    const name = this.state.get<string>(ACTIVE_GROUP_KEY);
+    return name && getGroups()[name] ? name : undefined;
+  }
+
+  setManifestGroups(groups: RepoGroups): void {
+    manifestGroups = groups;
+    this.updateStatusBar();
+    this._onDidChangeActiveGroup.fire(this.activeGroup);
+  }
+
+  async setActiveGroup(name: string | undefined): Promise<void> {
+    await this.state.update(ACTIVE_GROUP_KEY, name);
+    this.updateStatusBar();
+    this._onDidChangeActiveGroup.fire(this.activeGroup);
+  }
+
+  /** Repositories belonging to `group` (defaults to the active group). */
+  filter(repos: RepoInfo[], group: string | undefined = this.activeGroup): RepoInfo[] {
+    if (!group) {
+      return repos;
+    }
+    return matchingRepos(repos, getGroups()[group] ?? []);
+  }
+
+  async pickActiveGroup(): Promise<void> {
+    const groups = getGroups();
+    const active = this.activeGroup;
+    const items: (vscode.QuickPickItem & { group?: string })[] = [
+      {
+        label: "$(globe) All repositories",
+        description: active === undefined ? "active" : undefined,
+      },
+      ...Object.entries(groups).map(([name, patterns]) => ({
+        label: `$(layers) ${name}`,
+        description: name === active ? "active" : undefined,
+        detail: patterns.join(", "),
+        group: name,
+      })),
+    ];
+    const pick = await vscode.window.showQuickPick(items, {
+      placeHolder: "Scope bulk commands to a repository group",
+    });
+    if (pick) {
+      await this.setActiveGroup(pick.group);
+    }
+  }
+
+  async createGroup(repos: RepoInfo[]): Promise<void> {
+    const name = await vscode.window.showInputBox({
+      prompt: "Group name",
+      placeHolder: "e.g. backend",
+      validateInput: (value) => {
+        if (!value.trim()) {
+          return "Group name cannot be empty";
+        }
+        return getGroups()[value.trim()] ? "A group with this name already exists" : undefined;
+      },
+    });
+    if (!name) {return;}
+
+    const patterns = await this.pickGroupRepos(repos, []);
+    if (!patterns) {return;}
+
+    await this.saveGroups({ ...getConfiguredGroups(), [name.trim()]: patterns });
+    vscode.window.showInformationMessage(`✅ Created group ${name.trim()} with ${patterns.length} repo(s)`);
+  }
+
+  async editGroup(repos: RepoInfo[]): Promise<void> {
+    const name = await this.pickGroupName("Select group to edit");
+    if (!name) {return;}
+    const groups = getConfiguredGroups();
+
+    const mode = await vscode.window.showQuickPick(
+      [
+        { label: "Select repositories…", value: "repos" },
+        { label: "Edit patterns…", description: groups[name].join(", "), value: "patterns" },
+      ],
+      { placeHolder: `Edit group ${name}` },
+    );
+    if (!mode) {return;}
+
+    // Only the settings part of the group is edited and saved; members the
+    // manifest adds under the same name stay in the manifest
+    let patterns: string[] | undefined;
+    if (mode.value === "repos") {
+      patterns = await this.pickGroupRepos(repos, matchingRepos(repos, groups[name]));
+    } else {
+      const value = await vscode.window.showInputBox({
+        prompt: "Comma-separated globs or paths (relative to the workspace folder)",
+        value: groups[name].join(", "),
+      });
+      patterns = value?.split(",").map((p) => p.trim()).filter(Boolean);
+    }
+    if (!patterns) {return;}
+
+    await this.saveGroups({ ...groups, [name]: patterns });
+    vscode.window.showInformationMessage(`✅ Updated group ${name}`);
+  }
+
+  async deleteGroup(): Promise<void> {
+    const name = await this.pickGroupName("Select group to delete");
+    if (!name) {return;}
+
+    const confirm = await vscode.window.showWarningMessage(
+      `Delete group "${name}"? Repositories are not affected.`,
+      { modal: true },
+      "Delete",
+    );
+    if (confirm !== "Delete") {return;}
+
+    const groups = { ...getConfiguredGroups() };
+    delete groups[name];
+    await this.saveGroups(groups);
+    if (this.state.get<string>(ACTIVE_GROUP_KEY) === name) {
+      await this.setActiveGroup(undefined);
+    }
+    vscode.window.showInformationMessage(`✅ Deleted group ${name}`);
+  }
+
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+  }
+
+  // Only configured groups; manifest group tags are edited in the manifest
+  private async pickGroupName(placeHolder: string): Promise<string | undefined> {
+    const names = Object.keys(getConfiguredGroups());
+    if (names.length === 0) {
+      vscode.window.showInformationMessage("ℹ️ No repository groups defined in settings.");
+      return undefined;
+    }
+    return vscode.window.showQuickPick(names, { placeHolder });
+  }
+
+  private async pickGroupRepos(repos: RepoInfo[], selected: RepoInfo[]): Promise<string[] | undefined> {
+    const selectedPaths = new Set(selected.map((repo) => repo.path));
+    const picks = await vscode.window.showQuickPick(
+      repos.map((repo) => ({
+        label: repo.name,
+        description: vscode.workspace.asRelativePath(repo.path),
+        picked: selectedPaths.has(repo.path),
+        repo,
+      })),
+      { canPickMany: true, placeHolder: "Select repositories for this group" },
+    );
+    if (!picks) {
+      return undefined;
+    }
+    return picks.map((pick) => toPosix(vscode.workspace.asRelativePath(pick.repo.path)));
+  }
+
+  private async saveGroups(groups: RepoGroups): Promise<void> {
+    await vscode.workspace
+      .getConfiguration("multiRepoGit")
+      .update("groups", groups, vscode.ConfigurationTarget.Workspace);
+  }
+
+  private updateStatusBar(): void {
+    const active = this.activeGroup;
+    this.statusBarItem.text = `$(layers) ${active ?? "All repos"}`;
+    this.statusBarItem.tooltip = active
+      ? `Multi Repo Git: bulk commands are scoped to group "${active}"`
+      : "Multi Repo Git: bulk commands run on all repositories";
+  }
+}
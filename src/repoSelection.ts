@@ -0,0 +1,101 @@
+import * as vscode from "vscode";
+import * as path from "node:path";
+import { RepoInfo } from "./extension";
+
+export type RepoSelectionMode = "writeOperations" | "always" | "never";
+
+const LAST_SELECTION_KEY = "multiRepoGit.lastRepoSelection";
+
+export function getRepoSelectionMode(): RepoSelectionMode {
+  const config = vscode.workspace.getConfiguration("multiRepoGit");
+  return config.get<RepoSelectionMode>("promptRepoSelection", "writeOperations");
+}
+
+export function shouldPromptForRepos(write: boolean): boolean {
+  const mode = getRepoSelectionMode();
+  return mode === "always" || (mode === "writeOperations" && write);
+}
+
+type RepoPickItem = vscode.QuickPickItem & { repo: RepoInfo };
+
+/**
+ * Whether the quick pick shows `item` for the typed `filter`: like VS Code,
+ * the characters must appear in order, ignoring case, in the label or description.
+ */
+export function matchesPickFilter(filter: string, item: vscode.QuickPickItem): boolean {
+  const wanted = filter.replace(/\s+/g, "").toLowerCase();
+  const inOrder = (text: string | undefined) => {
+    let next = 0;
+    for (const char of (text ?? "").toLowerCase()) {
+      if (char === wanted[next]) {
+        next++;
+      }
+    }
+    return next === wanted.length;
+  };
+  return inOrder(item.label) || inOrder(item.description);
+}
+
+/**
+ * Lets the user choose which repositories an operation runs on. The last
+ * confirmed selection is remembered per workspace and pre-checked next time.
+ * Resolves to `undefined` when the picker is dismissed.
+ */
+export async function pickRepositories(
+  state: vscode.Memento,
+  repos: RepoInfo[],
+  operationName: string,
+): Promise<RepoInfo[] | undefined> {
+  const previous = state.get<string[]>(LAST_SELECTION_KEY);
+  const previousSet = previous ? new Set(previous) : undefined;
+
+  const selectAll: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon("check-all"),
+    tooltip: "Select all",
+  };
+  const selectNone: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon("clear-all"),
+    tooltip: "Select none",
+  };
+
+  const items: RepoPickItem[] = repos.map((repo) => ({
+    label: repo.name,
+    description: vscode.workspace.asRelativePath(repo.path),
+    detail: repo.kind && repo.kind !== "primary" && repo.parent
+      ? `${repo.kind} of ${path.basename(repo.parent)}`
+      : undefined,
+    repo,
+  }));
+
+  const quickPick = vscode.window.createQuickPick<RepoPickItem>();
+  quickPick.title = `${operationName}: select repositories`;
+  quickPick.placeholder = "Type to filter by name; confirm with Enter";
+  quickPick.canSelectMany = true;
+  quickPick.matchOnDescription = true;
+  quickPick.buttons = [selectAll, selectNone];
+  quickPick.items = items;
+  quickPick.selectedItems = previousSet
+    ? items.filter((item) => previousSet.has(item.repo.path))
+    : items;
+
+  const selection = await new Promise<RepoInfo[] | undefined>((resolve) => {
+    // Both act on the items the filter shows; hidden ones keep their state
+    quickPick.onDidTriggerButton((button) => {
+      const visible = quickPick.items.filter((item) => matchesPickFilter(quickPick.value, item));
+      const kept = quickPick.selectedItems.filter((item) => !visible.includes(item));
+      quickPick.selectedItems = button === selectAll ? [...kept, ...visible] : kept;
+    });
+    quickPick.onDidAccept(() => {
+      resolve(quickPick.selectedItems.map((item) => item.repo));
+      quickPick.hide();
+    });
+    quickPick.onDidHide(() => resolve(undefined));
+    quickPick.show();
+  });
+  quickPick.dispose();
+
+  if (selection && selection.length > 0) {
+    await state.update(LAST_SELECTION_KEY, selection.map((repo) => repo.path));
+  }
+  return selection;
+}
@@ -0,0 +1,161 @@
+import * as vscode from "vscode";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { StatusResult } from "simple-git";
+import { RepoInfo } from "./extension";
+import { GitClient } from "./gitClient";
+import { getConcurrency, runWithConcurrency } from "./bulkOperation";
+
+export interface RepoStatusSummary {
+  repo: RepoInfo;
+  branch: string;
+  detached: boolean;
+  upstream?: string;
+  ahead: number;
+  behind: number;
+  staged: number;
+  unstaged: number;
+  untracked: number;
+  conflicted: number;
+  stashes: number;
+  lastFetch?: Date;
+  error?: string;
+}
+
+export function countChanges(files: StatusResult["files"]): {
+  staged: number;
+  unstaged: number;
+  untracked: number;
+  conflicted: number;
+} {
+  let staged = 0;
+  let unstaged = 0;
+  let untracked = 0;
+  let conflicted = 0;
+  for (const file of files) {
+    if (file.index === "?" && file.working_dir === "?") {
+      untracked++;
+      continue;
+    }
+    if (file.index === "U" || file.working_dir === "U" || (file.index === "A" && file.working_dir === "A") || (file.index === "D" && file.working_dir === "D")) {
+      conflicted++;
+      continue;
+    }
+    if (file.index !== " " && file.index !== "") {
+      staged++;
+    }
+    if (file.working_dir !== " " && file.working_dir !== "") {
+      unstaged++;
+    }
+  }
+  return { staged, unstaged, untracked, conflicted };
+}
+
+export function isDirty(status: RepoStatusSummary): boolean {
+  return status.staged + status.unstaged + status.untracked + status.conflicted > 0;
+}
+
+export async function getRepoStatus(
+  client: GitClient,
+  repo: RepoInfo,
+): Promise<RepoStatusSummary> {
+  try {
+    const status = await client.run(repo.path, "status", (git) => git.status(), { record: false });
+    const stashes = await client.run(repo.path, "query", (git) => git.stashList(), { record: false });
+    const fetchHead = await client.run(repo.path, "query", (git) => git.revparse(["--git-path", "FETCH_HEAD"]), { record: false });
+
+    let lastFetch: Date | undefined;
+    try {
+      lastFetch = (await fs.stat(path.resolve(repo.path, fetchHead.trim()))).mtime;
+    } catch {
+      // never fetched
+    }
+
+    return {
+      repo,
+      branch: status.current ?? "HEAD",
+      detached: status.detached,
+      upstream: status.tracking ?? undefined,
+      ahead: status.ahead,
+      behind: status.behind,
+      ...countChanges(status.files),
+      stashes: stashes.total,
+      lastFetch,
+    };
+  } catch (e: any) {
+    return {
+      repo,
+      branch: "",
+      detached: false,
+      ahead: 0,
+      behind: 0,
+      staged: 0,
+      unstaged: 0,
+      untracked: 0,
+      conflicted: 0,
+      stashes: 0,
+      error: e.message || String(e),
+    };
+  }
+}
+
+/**
+ * Caches the status of every repository in scope. Entries are invalidated
+ * individually when VS Code's git extension reports a state change.
+ */
+export class RepoStatusStore implements vscode.Disposable {
+  private readonly cache = new Map<string, Promise<RepoStatusSummary>>();
+  private readonly pending = new Map<string, NodeJS.Timeout>();
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor(
+    private readonly client: GitClient,
+    private readonly getRepos: () => Promise<RepoInfo[]>,
+  ) {}
+
+  /** Statuses of `repos`, or of every discovered repository. */
+  async getAll(repos?: RepoInfo[]): Promise<RepoStatusSummary[]> {
+    repos ??= await this.getRepos();
+    const statuses: RepoStatusSummary[] = new Array(repos.length);
+    await runWithConcurrency(repos, getConcurrency(), async (repo, index) => {
+      statuses[index] = await this.get(repo);
+    });
+    return statuses;
+  }
+
+  get(repo: RepoInfo): Promise<RepoStatusSummary> {
+    let status = this.cache.get(repo.path);
+    if (!status) {
+      status = getRepoStatus(this.client, repo);
+      this.cache.set(repo.path, status);
+    }
+    return status;
+  }
+
+  /** Drops cached statuses (all, or one repository after a short debounce). */
+  invalidate(repoPath?: string): void {
+    if (repoPath === undefined) {
+      // A scheduled per-repository refresh would only discard the state read next
+      this.pending.forEach((timer) => clearTimeout(timer));
+      this.pending.clear();
+      this.cache.clear();
+      this._onDidChange.fire();
+      return;
+    }
+    clearTimeout(this.pending.get(repoPath));
+    this.pending.set(
+      repoPath,
+      setTimeout(() => {
+        this.pending.delete(repoPath);
+        this.cache.delete(repoPath);
+        this._onDidChange.fire();
+      }, 300),
+    );
+  }
+
+  dispose(): void {
+    this.pending.forEach((timer) => clearTimeout(timer));
+    this._onDidChange.dispose();
+  }
+}
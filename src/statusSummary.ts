@@ -0,0 +1,144 @@
+import * as vscode from "vscode";
+import { RepoInfo } from "./extension";
+import { RepoStatusStore, RepoStatusSummary, isDirty } from "./repoStatus";
+
+export interface WorkspaceSummary {
+  total: number;
+  dirty: number;
+  behind: number;
+  diverged: number;
+  failed: number;
+}
+
+export type ProblemRepoAction = "pull" | "open" | "diff";
+
+export function summarizeStatuses(statuses: RepoStatusSummary[]): WorkspaceSummary {
+  const summary: WorkspaceSummary = { total: statuses.length, dirty: 0, behind: 0, diverged: 0, failed: 0 };
+  for (const status of statuses) {
+    if (status.error) {
+      summary.failed++;
+      continue;
+    }
+    if (isDirty(status)) {
+      summary.dirty++;
+    }
+    if (status.behind > 0 && status.ahead > 0) {
+      summary.diverged++;
+    } else if (status.behind > 0) {
+      summary.behind++;
+    }
+  }
+  return summary;
+}
+
+/** e.g. "12 repos · 3 dirty · 2 behind · 1 diverged"; zero counts are left out. */
+export function formatSummary(summary: WorkspaceSummary): string {
+  const parts = [`${summary.total} ${summary.total === 1 ? "repo" : "repos"}`];
+  if (summary.dirty > 0) {
+    parts.push(`${summary.dirty} dirty`);
+  }
+  if (summary.behind > 0) {
+    parts.push(`${summary.behind} behind`);
+  }
+  if (summary.diverged > 0) {
+    parts.push(`${summary.diverged} diverged`);
+  }
+  if (summary.failed > 0) {
+    parts.push(`${summary.failed} failed`);
+  }
+  return parts.join(" · ");
+}
+
+/** Why a repository needs attention, or `undefined` when it doesn't. */
+export function describeProblems(status: RepoStatusSummary): string | undefined {
+  if (status.error) {
+    return status.error;
+  }
+  const problems: string[] = [];
+  if (isDirty(status)) {
+    problems.push("dirty");
+  }
+  if (status.behind > 0 && status.ahead > 0) {
+    problems.push(`diverged ↑${status.ahead} ↓${status.behind}`);
+  } else if (status.behind > 0) {
+    problems.push(`behind ↓${status.behind}`);
+  }
+  return problems.length > 0 ? problems.join(" · ") : undefined;
+}
+
+/**
+ * Status bar item summarizing every discovered repository. Clicking it lists
+ * the repositories that are dirty, behind, diverged or failing.
+ */
+export class StatusSummaryBar implements vscode.Disposable {
+  private readonly statusBarItem: vscode.StatusBarItem;
+  private readonly disposables: vscode.Disposable[] = [];
+  private statuses: RepoStatusSummary[] = [];
+
+  constructor(private readonly store: RepoStatusStore) {
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      49,
+    );
+    this.statusBarItem.command = "multi-repo-git-commands.showRepoSummary";
+    this.statusBarItem.text = "$(sync~spin) Scanning repos…";
+    this.statusBarItem.show();
+
+    this.disposables.push(
+      this.statusBarItem,
+      store.onDidChange(() => this.refresh()),
+    );
+    this.refresh();
+  }
+
+  private refresh(): void {
+    void this.update().catch((e) => console.error("Failed to update the repository status summary:", e));
+  }
+
+  async update(): Promise<void> {
+    this.statuses = await this.store.getAll();
+    const summary = summarizeStatuses(this.statuses);
+    const hasProblems = summary.dirty + summary.behind + summary.diverged + summary.failed > 0;
+    this.statusBarItem.text = `$(${hasProblems ? "repo-forked" : "repo"}) ${formatSummary(summary)}`;
+    this.statusBarItem.tooltip = hasProblems
+      ? "Multi Repo Git: click to list repositories that need attention"
+      : "Multi Repo Git: all repositories are clean and up to date";
+  }
+
+  /** Lets the user pick a problem repository and what to do with it. */
+  async pickProblemRepo(): Promise<{ repo: RepoInfo; action: ProblemRepoAction } | undefined> {
+    const problems = this.statuses
+      .map((status) => ({ status, problem: describeProblems(status) }))
+      .filter((entry): entry is { status: RepoStatusSummary; problem: string } => !!entry.problem);
+
+    if (problems.length === 0) {
+      vscode.window.showInformationMessage("✅ All repositories are clean and up to date.");
+      return undefined;
+    }
+
+    const repoPick = await vscode.window.showQuickPick(
+      problems.map(({ status, problem }) => ({
+        label: status.repo.name,
+        description: problem,
+        detail: vscode.workspace.asRelativePath(status.repo.path),
+        repo: status.repo,
+      })),
+      { placeHolder: "Repositories that need attention", matchOnDetail: true },
+    );
+    if (!repoPick) {return undefined;}
+
+    const actionPick = await vscode.window.showQuickPick(
+      [
+        { label: "$(repo-pull) Pull", action: "pull" as const },
+        { label: "$(diff) Show Diff", action: "diff" as const },
+        { label: "$(folder-opened) Open Repository", action: "open" as const },
+      ],
+      { placeHolder: repoPick.repo.name },
+    );
+    return actionPick ? { repo: repoPick.repo, action: actionPick.action } : undefined;
+  }
+
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
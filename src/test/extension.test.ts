@@ -1,17 +1,85 @@
 import * as assert from "node:assert";
 import * as vscode from "vscode";
 import * as path from "path";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import { execFileSync } from "node:child_process";
 import {
   validateBranchName,
   validateCommitMessage,
   validateTagName,
+  validateRefName,
   validateRemoteName,
   validateRemoteURL,
   validateStashMessage,
   validateCustomGitArgs,
 } from "../validators";
-import { getAllGitRepos } from "../repoDiscovery";
+import {
+  DiscoveryOptions,
+  classifyGitFile,
+  getAllGitRepos,
+  isWithinScanScope,
+  parseGitmodules,
+} from "../repoDiscovery";
 import { COMMANDS, getCommandById, getAllCommandIds } from "../commandRegistry";
+import {
+  RepoOperationResult,
+  RepoOutputBuffer,
+  runWithConcurrency,
+  summarizeResults,
+} from "../bulkOperation";
+import { GitBackendOptions, GitClient } from "../gitClient";
+import { getRepoSelectionMode, matchesPickFilter, shouldPromptForRepos } from "../repoSelection";
+import { isIgnored, matchesGlob, parseIgnoreFile } from "../glob";
+import { repoMatchesPatterns, repoPathCandidates } from "../repoGroups";
+import { RepoStatusStore, RepoStatusSummary, countChanges } from "../repoStatus";
+import { describeStatus } from "../dashboardProvider";
+import { describeProblems, formatSummary, summarizeStatuses } from "../statusSummary";
+import { ResolvedManifestRepo, manifestGroups, parseManifest } from "../manifest";
+import { cloneTargetsFromUrls, parseRemoteURLList, repoNameFromUrl } from "../cloneRepositories";
+import { RepoSnapshot, UndoHistory, captureSnapshot, restoreSnapshot } from "../undoHistory";
+import { BACKUP_REF_PREFIX, backupId, createBackup, discardPreview, formatDiscardPreview } from "../backups";
+import {
+  RepoState,
+  predictCheckout,
+  predictDeleteBranch,
+  predictDiscard,
+  predictPull,
+  predictPush,
+  predictResetWorkspace,
+} from "../dryRun";
+import { AUTO_STASH_TAG, autoStashMessage, findStashRef, withAutoStash } from "../autoStash";
+import { DEFAULT_PREFLIGHT_POLICIES, findPreflightIssues, resolvePolicy } from "../preflight";
+import { resolvePullStrategy } from "../pullStrategy";
+import { CommitRequest, RepoCommitChanges, commitFiles, commitMessageFor, defaultSelection, validateCommitRequest } from "../commits";
+import {
+  DEFAULT_COMMIT_RULES,
+  DEFAULT_COMMIT_TYPES,
+  DEFAULT_TICKET_PATTERN,
+  applyTicket,
+  conventionalPrefix,
+  extractTicket,
+  resolveCommitRules,
+  validateCommitRules,
+} from "../commitMessage";
+import { PushChoice, PushTarget, chooseRemote, formatPushSummary, predictPushTo, pushOptionsFor } from "../push";
+import { describeHunk, hunkPatch, parseFileDiff, reviewFiles } from "../changeReview";
+import { RefComparison, parseCommitLog, parseNameStatus, summarizeComparisons } from "../compareRefs";
+
+// A throwaway repository on `main` with one commit of `a.txt`, for behaviour
+// that depends on git itself; `git` runs in it and returns stdout.
+function createTestRepo(): { dir: string; git: (...args: string[]) => string; write: (file: string, content: string) => void } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "multi-repo-git-test-"));
+  const git = (...args: string[]) => execFileSync("git", args, { cwd: dir, encoding: "utf-8", stdio: "pipe" });
+  const write = (file: string, content: string) => fs.writeFileSync(path.join(dir, file), content);
+  git("init", "-q", "-b", "main");
+  git("config", "user.name", "Test");
+  git("config", "user.email", "test@example.com");
+  write("a.txt", "one\n");
+  git("add", "a.txt");
+  git("commit", "-q", "-m", "initial");
+  return { dir, git, write };
+}
 
 suite("Validators", () => {
   suite("validateBranchName", () => {
@@ -112,6 +180,20 @@ suite("Validators", () => {
     });
   });
 
+  suite("validateRefName", () => {
+    test("accepts branches, remote branches, tags and relative refs", () => {
+      for (const ref of ["release/2.3", "origin/main", "v1.0.0", "HEAD~3", "a1b2c3d^"]) {
+        assert.strictEqual(validateRefName(ref).valid, true, ref);
+      }
+    });
+
+    test("rejects options and ranges", () => {
+      assert.ok(validateRefName("--output=x").error?.includes("start with -"));
+      assert.ok(validateRefName("main..dev").error?.includes("characters"));
+      assert.ok(validateRefName("main dev").error?.includes("characters"));
+    });
+  });
+
   suite("validateRemoteName", () => {
     test("accepts valid remote name", () => {
       const result = validateRemoteName("origin");
@@ -232,7 +314,7 @@ suite("Validators", () => {
 suite("Command Registry", () => {
   test("COMMANDS array is populated", () => {
     assert.ok(COMMANDS.length > 0, "COMMANDS should not be empty");
-    assert.strictEqual(COMMANDS.length, 22, "Should have 22 commands");
+    assert.strictEqual(COMMANDS.length, 58, "Should have 58 commands");
   });
 
   test("all commands have required properties", () => {
@@ -257,7 +339,7 @@ suite("Command Registry", () => {
 
   test("getAllCommandIds returns all command ids", () => {
     const ids = getAllCommandIds();
-    assert.strictEqual(ids.length, 22, "Should return all 22 command ids");
+    assert.strictEqual(ids.length, 58, "Should return all 58 command ids");
     assert.ok(
       ids.includes("multi-repo-git-commands.statusAll"),
       "Should include statusAll command"
@@ -311,6 +393,236 @@ suite("Repository Discovery", () => {
       });
     }
   });
+
+  suite("isWithinScanScope", () => {
+    const root = path.join(path.sep, "ws");
+    const options: DiscoveryOptions = {
+      scanNested: true,
+      maxDepth: 2,
+      excludeFolders: ["node_modules"],
+      includeSubmodules: false,
+      include: [],
+      exclude: [],
+      ignoreFiles: [],
+      followSymlinks: false,
+    };
+
+    test("accepts the folder itself and paths within maxDepth", () => {
+      assert.strictEqual(isWithinScanScope(root, root, options), true);
+      assert.strictEqual(isWithinScanScope(root, path.join(root, "a", "b"), options), true);
+      assert.strictEqual(isWithinScanScope(root, path.join(root, "a", "b", "c"), options), false);
+    });
+
+    test("rejects excluded folders and paths outside the folder", () => {
+      assert.strictEqual(isWithinScanScope(root, path.join(root, "node_modules", "x"), options), false);
+      assert.strictEqual(isWithinScanScope(root, path.join(path.sep, "other"), options), false);
+    });
+
+    test("only the folder itself when nested scanning is off", () => {
+      const flat = { ...options, scanNested: false };
+      assert.strictEqual(isWithinScanScope(root, root, flat), true);
+      assert.strictEqual(isWithinScanScope(root, path.join(root, "a"), flat), false);
+    });
+
+    test("honors exclude and include globs", () => {
+      const globs = { ...options, include: ["services/*"], exclude: ["**/vendor/**"] };
+      assert.strictEqual(isWithinScanScope(root, path.join(root, "services", "api"), globs), true);
+      assert.strictEqual(isWithinScanScope(root, path.join(root, "tools", "lint"), globs), false);
+      assert.strictEqual(isWithinScanScope(root, path.join(root, "vendor", "lib"), { ...globs, include: [] }), false);
+    });
+  });
+
+  suite("classifyGitFile", () => {
+    const main = path.join(path.sep, "ws", "app");
+
+    test("linked worktrees point into the main repository's .git/worktrees", () => {
+      const gitdir = path.join(main, ".git", "worktrees", "feature");
+      assert.deepStrictEqual(
+        classifyGitFile(path.join(path.sep, "ws", "app-feature"), `gitdir: ${gitdir}\n`),
+        { kind: "worktree", parent: main },
+      );
+    });
+
+    test("submodules point into a .git/modules directory", () => {
+      const dir = path.join(main, "libs", "core");
+      assert.strictEqual(classifyGitFile(dir, "gitdir: ../../.git/modules/core").kind, "submodule");
+    });
+
+    test("other gitdir files are primary repositories", () => {
+      assert.strictEqual(classifyGitFile(main, "gitdir: /srv/git/app.git").kind, "primary");
+      assert.strictEqual(classifyGitFile(main, "garbage").kind, "primary");
+    });
+  });
+
+  test("parseGitmodules returns submodule paths", () => {
+    const content = '[submodule "core"]\n\tpath = libs/core\n\turl = ../core.git\n[submodule "ui"]\n  path = ui\n';
+    assert.deepStrictEqual(parseGitmodules(content), ["libs/core", "ui"]);
+  });
+});
+
+suite("Bulk Operation", () => {
+  test("runWithConcurrency processes every item", async () => {
+    const seen: number[] = [];
+    await runWithConcurrency([1, 2, 3, 4, 5], 2, async (item) => {
+      seen.push(item);
+    });
+    assert.deepStrictEqual(seen.sort(), [1, 2, 3, 4, 5]);
+  });
+
+  test("runWithConcurrency never exceeds the limit", async () => {
+    let running = 0;
+    let peak = 0;
+    await runWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+    });
+    assert.strictEqual(peak, 3, "Should run exactly 3 items at a time");
+  });
+
+  test("runWithConcurrency stops starting items after cancellation", async () => {
+    const source = new vscode.CancellationTokenSource();
+    const seen: number[] = [];
+    await runWithConcurrency(
+      [1, 2, 3, 4],
+      1,
+      async (item) => {
+        seen.push(item);
+        if (item === 2) {
+          source.cancel();
+        }
+      },
+      source.token,
+    );
+    assert.deepStrictEqual(seen, [1, 2]);
+  });
+
+  test("RepoOutputBuffer flushes its content as one block", () => {
+    const buffer = new RepoOutputBuffer();
+    buffer.appendLine("=== repo ===");
+    buffer.append("done");
+    let flushed = "";
+    buffer.flushTo({
+      append: (value) => (flushed += value),
+      appendLine: (value) => (flushed += `${value}\n`),
+    });
+    assert.strictEqual(flushed, "=== repo ===\ndone");
+    assert.strictEqual(buffer.toString(), "", "Buffer should be empty after flush");
+  });
+
+  test("summarizeResults counts each repository state", () => {
+    const repo = (state: RepoOperationResult["state"]): RepoOperationResult => ({
+      repo: state,
+      path: `/tmp/${state}`,
+      state,
+      success: state === "ok",
+      message: state,
+      stdout: "",
+      stderr: "",
+      durationMs: 1,
+    });
+    const result = summarizeResults(
+      "Fetch",
+      Date.now(),
+      true,
+      [repo("ok"), repo("ok"), repo("failed"), repo("skipped")],
+    );
+    assert.strictEqual(result.operation, "Fetch");
+    assert.strictEqual(result.successCount, 2);
+    assert.strictEqual(result.failureCount, 1);
+    assert.strictEqual(result.skippedCount, 1);
+    assert.strictEqual(result.cancelled, true);
+    assert.ok(!Number.isNaN(Date.parse(result.startedAt)), "startedAt should be an ISO date");
+  });
+
+  test("BulkOperationResult serializes to JSON", () => {
+    const result = summarizeResults("Status", Date.now(), false, []);
+    const parsed = JSON.parse(JSON.stringify(result));
+    assert.deepStrictEqual(parsed.repos, []);
+    assert.strictEqual(parsed.operation, "Status");
+  });
+});
+
+suite("GitClient", () => {
+  const silentOutput = { append: () => {}, appendLine: () => {} };
+
+  // Fake backend whose commands only settle when aborted.
+  function hangingBackend(seen: GitBackendOptions[]) {
+    return (options: GitBackendOptions) => {
+      seen.push(options);
+      const hang = () =>
+        new Promise((_, reject) => {
+          options.abort?.addEventListener("abort", () => reject(new Error("aborted")));
+        });
+      return { fetch: hang, raw: hang } as any;
+    };
+  }
+
+  test("uses the injected backend for the repository", async () => {
+    const seen: GitBackendOptions[] = [];
+    const client = new GitClient(silentOutput, {
+      timeouts: { default: 20 },
+      backend: hangingBackend(seen),
+    });
+    await client.fetch("/tmp/repo");
+    assert.strictEqual(seen.length, 1);
+    assert.strictEqual(seen[0].baseDir, "/tmp/repo");
+  });
+
+  test("aborts the git process when the timeout elapses", async () => {
+    const seen: GitBackendOptions[] = [];
+    const client = new GitClient(silentOutput, {
+      timeouts: { default: 20 },
+      backend: hangingBackend(seen),
+    });
+    const result = await client.fetch("/tmp/repo");
+    assert.strictEqual(result.success, false);
+    assert.ok(result.error?.includes("timeout after 20ms"));
+    assert.strictEqual(seen[0].abort?.aborted, true, "Abort signal should fire");
+  });
+
+  test("prefers the per-operation timeout over the default", async () => {
+    const seen: GitBackendOptions[] = [];
+    const client = new GitClient(silentOutput, {
+      timeouts: { default: 5000, fetch: 10 },
+      backend: hangingBackend(seen),
+    });
+    const result = await client.fetch("/tmp/repo");
+    assert.ok(result.error?.includes("timeout after 10ms"));
+  });
+
+  test("cancellation kills running operations", async () => {
+    const seen: GitBackendOptions[] = [];
+    const source = new vscode.CancellationTokenSource();
+    const client = new GitClient(silentOutput, {
+      timeouts: { default: 5000 },
+      backend: hangingBackend(seen),
+      token: source.token,
+    });
+    const pending = client.raw("/tmp/repo", ["status"]);
+    source.cancel();
+    const result = await pending;
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.error, "Operation cancelled");
+  });
+
+  test("cleans up when the backend throws for a missing directory", async () => {
+    let disposed = false;
+    const token = {
+      isCancellationRequested: false,
+      onCancellationRequested: () => ({ dispose: () => (disposed = true) }),
+    } as any;
+    const client = new GitClient(silentOutput, {
+      timeouts: { default: 5000 },
+      backend: () => {
+        throw new Error("Cannot use simple-git on a directory that does not exist");
+      },
+      token,
+    });
+    assert.strictEqual(await client.head("/tmp/missing"), undefined);
+    assert.strictEqual(disposed, true, "Cancellation listener should be disposed");
+  });
 });
 
 suite("Extension Activation", () => {
@@ -336,6 +648,17 @@ suite("Extension Activation", () => {
       assert.ok(commands.includes(cmd), `Command not found: ${cmd}`);
     }
   });
+
+  test("Single-repo context menu commands should be registered", async () => {
+    const commands = await vscode.commands.getCommands(true);
+    const singleRepoCommands = COMMANDS
+      .map((cmd) => cmd.id)
+      .filter((id) => id.endsWith("Repo"));
+    assert.ok(singleRepoCommands.length > 0, "Registry should list single-repo commands");
+    for (const cmd of singleRepoCommands) {
+      assert.ok(commands.includes(cmd), `Command not found: ${cmd}`);
+    }
+  });
 });
 
 suite("Validator Boundary Tests", () => {
@@ -443,6 +766,948 @@ suite("Configuration", () => {
   });
 });
 
+suite("Repository Selection", () => {
+  test("defaults to prompting before write operations only", () => {
+    assert.strictEqual(getRepoSelectionMode(), "writeOperations");
+    assert.strictEqual(shouldPromptForRepos(true), true);
+    assert.strictEqual(shouldPromptForRepos(false), false);
+  });
+
+  test("select all only covers the items the filter shows", () => {
+    const item = { label: "billing-api", description: "services/billing-api" };
+    assert.strictEqual(matchesPickFilter("", item), true);
+    assert.strictEqual(matchesPickFilter("BillAPI", item), true);
+    assert.strictEqual(matchesPickFilter("services", item), true);
+    assert.strictEqual(matchesPickFilter("web", item), false);
+    assert.strictEqual(matchesPickFilter("ipa", item), false);
+  });
+});
+
+suite("Glob Matching", () => {
+  test("single star stays within one segment", () => {
+    assert.strictEqual(matchesGlob("services/api", "services/*"), true);
+    assert.strictEqual(matchesGlob("services/api/v2", "services/*"), false);
+  });
+
+  test("double star spans segments, including none", () => {
+    assert.strictEqual(matchesGlob("a/vendor/b/c", "**/vendor/**"), true);
+    assert.strictEqual(matchesGlob("vendor/b", "**/vendor/**"), true);
+    assert.strictEqual(matchesGlob("src/b", "**/vendor/**"), false);
+  });
+
+  test("question mark matches a single character", () => {
+    assert.strictEqual(matchesGlob("app1", "app?"), true);
+    assert.strictEqual(matchesGlob("app12", "app?"), false);
+  });
+
+  test("regex characters in patterns are literal", () => {
+    assert.strictEqual(matchesGlob("my.repo", "my.repo"), true);
+    assert.strictEqual(matchesGlob("myxrepo", "my.repo"), false);
+  });
+
+  test("backslashes are treated as separators", () => {
+    assert.strictEqual(matchesGlob("services\\api", "services/*"), true);
+  });
+
+  test("ignore file patterns without a slash match at any depth", () => {
+    const rules = parseIgnoreFile("# vendored checkouts\nvendor/\n");
+    assert.strictEqual(isIgnored("vendor", rules), true);
+    assert.strictEqual(isIgnored("libs/vendor", rules), true);
+    assert.strictEqual(isIgnored("vendors", rules), false);
+  });
+
+  test("anchored and negated ignore patterns", () => {
+    const rules = parseIgnoreFile("/third_party/*\n!third_party/ours\n");
+    assert.strictEqual(isIgnored("third_party/theirs", rules), true);
+    assert.strictEqual(isIgnored("third_party/ours", rules), false);
+    assert.strictEqual(isIgnored("libs/third_party/theirs", rules), false);
+  });
+});
+
+suite("Repository Groups", () => {
+  const folders = [{ name: "work", path: path.join(path.sep, "ws", "work") }];
+  const repoPath = path.join(path.sep, "ws", "work", "services", "api");
+
+  test("candidates include relative, folder-prefixed and name forms", () => {
+    const candidates = repoPathCandidates(repoPath, folders);
+    assert.ok(candidates.includes("services/api"));
+    assert.ok(candidates.includes("work/services/api"));
+    assert.ok(candidates.includes("api"));
+  });
+
+  test("matches globs relative to the workspace folder", () => {
+    assert.strictEqual(repoMatchesPatterns(repoPath, ["services/*"], folders), true);
+    assert.strictEqual(repoMatchesPatterns(repoPath, ["frontend/*"], folders), false);
+  });
+
+  test("matches plain repository names", () => {
+    assert.strictEqual(repoMatchesPatterns(repoPath, ["api"], folders), true);
+  });
+
+  test("workspace folder repository matches by folder name", () => {
+    assert.strictEqual(repoMatchesPatterns(folders[0].path, ["work"], folders), true);
+  });
+});
+
+suite("Repository Status", () => {
+  const file = (index: string, working_dir: string) => ({ path: "f", index, working_dir });
+
+  test("counts staged, unstaged and untracked files", () => {
+    const counts = countChanges([file("M", " "), file("A", "M"), file(" ", "M"), file("?", "?")]);
+    assert.deepStrictEqual(counts, { staged: 2, unstaged: 2, untracked: 1, conflicted: 0 });
+  });
+
+  test("counts merge conflicts separately", () => {
+    const counts = countChanges([file("U", "U"), file("A", "A"), file("D", "D")]);
+    assert.deepStrictEqual(counts, { staged: 0, unstaged: 0, untracked: 0, conflicted: 3 });
+  });
+
+  test("describes branch, divergence and change count", () => {
+    const status: RepoStatusSummary = {
+      repo: { name: "api", path: "/ws/api" },
+      branch: "main",
+      detached: false,
+      ahead: 2,
+      behind: 1,
+      staged: 1,
+      unstaged: 0,
+      untracked: 3,
+      conflicted: 0,
+      stashes: 0,
+    };
+    assert.strictEqual(describeStatus(status), "main ↑2 ↓1 ●4");
+    assert.strictEqual(describeStatus({ ...status, ahead: 0, behind: 0, staged: 0, untracked: 0 }), "main");
+  });
+
+  test("a full invalidation cancels pending per-repository refreshes", async () => {
+    const store = new RepoStatusStore({} as any, async () => []);
+    let changes = 0;
+    store.onDidChange(() => changes++);
+    store.invalidate("/ws/api");
+    store.invalidate();
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    store.dispose();
+    assert.strictEqual(changes, 1);
+  });
+});
+
+suite("Workspace Status Summary", () => {
+  const status = (overrides: Partial<RepoStatusSummary>): RepoStatusSummary => ({
+    repo: { name: "api", path: "/ws/api" },
+    branch: "main",
+    detached: false,
+    ahead: 0,
+    behind: 0,
+    staged: 0,
+    unstaged: 0,
+    untracked: 0,
+    conflicted: 0,
+    stashes: 0,
+    ...overrides,
+  });
+
+  test("counts dirty, behind and diverged repositories", () => {
+    const summary = summarizeStatuses([
+      status({}),
+      status({ unstaged: 1 }),
+      status({ behind: 2 }),
+      status({ ahead: 1, behind: 1, staged: 1 }),
+    ]);
+    assert.deepStrictEqual(summary, { total: 4, dirty: 2, behind: 1, diverged: 1, failed: 0 });
+  });
+
+  test("formats only non-zero counts", () => {
+    assert.strictEqual(
+      formatSummary({ total: 12, dirty: 3, behind: 2, diverged: 1, failed: 0 }),
+      "12 repos · 3 dirty · 2 behind · 1 diverged",
+    );
+    assert.strictEqual(formatSummary({ total: 1, dirty: 0, behind: 0, diverged: 0, failed: 0 }), "1 repo");
+  });
+
+  test("clean, up-to-date repositories are not problems", () => {
+    assert.strictEqual(describeProblems(status({ ahead: 3 })), undefined);
+    assert.strictEqual(describeProblems(status({ untracked: 1, behind: 2 })), "dirty · behind ↓2");
+  });
+});
+
+suite("Workspace Manifest", () => {
+  test("parses JSON manifests and defaults path to name", () => {
+    const repos = parseManifest(
+      JSON.stringify({
+        repos: [
+          { name: "api", url: "git@github.com:acme/api.git", defaultBranch: "main", groups: ["backend"] },
+          { name: "web-ui", path: "frontend/web" },
+        ],
+      }),
+      ".multirepo.json",
+    );
+    assert.strictEqual(repos.length, 2);
+    assert.strictEqual(repos[0].path, "api");
+    assert.deepStrictEqual(repos[0].groups, ["backend"]);
+    assert.strictEqual(repos[1].path, "frontend/web");
+    assert.deepStrictEqual(repos[1].groups, []);
+  });
+
+  test("parses YAML manifests", () => {
+    const repos = parseManifest(
+      "repos:\n  - name: api\n    path: services/api\n    url: https://example.com/acme/api.git\n",
+      ".multirepo.yaml",
+    );
+    assert.strictEqual(repos[0].name, "api");
+    assert.strictEqual(repos[0].url, "https://example.com/acme/api.git");
+  });
+
+  test("rejects invalid entries", () => {
+    assert.throws(() => parseManifest("{}", ".multirepo.json"), /"repos"/);
+    assert.throws(() => parseManifest('{"repos":[{"path":"x"}]}', ".multirepo.json"), /name/);
+    assert.throws(() => parseManifest('{"repos":[{"name":"x","path":"../x"}]}', ".multirepo.json"), /relative/);
+    assert.throws(() => parseManifest('{"repos":[{"name":"x","url":"nope"}]}', ".multirepo.json"), /URL/);
+    assert.throws(() => parseManifest('{"repos":[{"name":"x"},{"name":"x"}]}', ".multirepo.json"), /duplicate/);
+    assert.throws(() => parseManifest('{"repos":[{"name":"api"},{"name":"api "}]}', ".multirepo.json"), /duplicate name "api"/);
+  });
+
+  test("group tags become groups of absolute paths", () => {
+    const entry = (name: string, groups: string[]): ResolvedManifestRepo => ({
+      name,
+      path: name,
+      groups,
+      absolutePath: `/ws/${name}`,
+      manifestFile: "/ws/.multirepo.json",
+    });
+    assert.deepStrictEqual(manifestGroups([entry("api", ["backend"]), entry("db", ["backend", "infra"])]), {
+      backend: ["/ws/api", "/ws/db"],
+      infra: ["/ws/db"],
+    });
+  });
+});
+
+suite("Clone Repositories", () => {
+  test("derives folder names from remote URLs", () => {
+    assert.strictEqual(repoNameFromUrl("git@github.com:acme/api.git"), "api");
+    assert.strictEqual(repoNameFromUrl("https://github.com/acme/web/"), "web");
+    assert.strictEqual(repoNameFromUrl("/srv/git/tools.git"), "tools");
+  });
+
+  test("parses and validates URL lists", () => {
+    const { urls, errors } = parseRemoteURLList(
+      "git@github.com:acme/api.git, https://github.com/acme/web.git\nnot-a-url git@github.com:acme/api.git",
+    );
+    assert.deepStrictEqual(urls, ["git@github.com:acme/api.git", "https://github.com/acme/web.git"]);
+    assert.strictEqual(errors.length, 1);
+    assert.ok(errors[0].startsWith("not-a-url"));
+  });
+
+  test("disambiguates targets that would share a folder", () => {
+    const folder = path.join(path.sep, "ws");
+    const targets = cloneTargetsFromUrls(
+      ["git@github.com:acme/api.git", "git@github.com:other/api.git", "https://github.com/acme/web.git"],
+      folder,
+    );
+    assert.deepStrictEqual(targets.map((target) => target.name), ["acme-api", "other-api", "web"]);
+    assert.strictEqual(targets[2].path, path.join(folder, "web"));
+  });
+});
+
+suite("Undo History", () => {
+  const silentOutput = { append: () => {}, appendLine: () => {} };
+
+  // Fake backend answering `raw` from `replies` (keyed by the joined args) and recording every call.
+  function scriptedClient(replies: Record<string, string>, calls: string[]) {
+    return new GitClient(silentOutput, {
+      backend: () =>
+        ({
+          raw: async (args: string[]) => {
+            calls.push(args.join(" "));
+            return replies[args.join(" ")] ?? "";
+          },
+        }) as any,
+    });
+  }
+
+  const snapshot: RepoSnapshot = {
+    name: "api",
+    path: "/tmp/api",
+    head: "aaa111",
+    branch: "main",
+    stash: "bbb222",
+    branches: { feature: "ccc333" },
+  };
+
+  test("recreates deleted branches, resets HEAD and re-applies changes", async () => {
+    const calls: string[] = [];
+    const client = scriptedClient(
+      {
+        "symbolic-ref --quiet --short HEAD": "main\n",
+        "rev-parse HEAD": "ddd444\n",
+        "diff --no-ext-diff --name-only bbb222 --": "a.ts\n",
+      },
+      calls,
+    );
+    const result = await restoreSnapshot(client, snapshot);
+    assert.strictEqual(result.success, true);
+    assert.ok(calls.includes("branch feature ccc333"));
+    assert.ok(!calls.some((call) => call.startsWith("checkout")), "Already on the recorded branch");
+    assert.ok(calls.includes("reset --keep aaa111"));
+    assert.ok(calls.includes("stash apply --index bbb222"));
+  });
+
+  test("leaves existing branches and an unmoved HEAD alone", async () => {
+    const calls: string[] = [];
+    const client = scriptedClient(
+      {
+        "rev-parse --verify --quiet refs/heads/feature": "ccc333\n",
+        "symbolic-ref --quiet --short HEAD": "other\n",
+        "rev-parse HEAD": "aaa111\n",
+      },
+      calls,
+    );
+    const result = await restoreSnapshot(client, { ...snapshot, stash: undefined });
+    assert.strictEqual(result.success, true);
+    assert.ok(!calls.some((call) => call.startsWith("branch ")));
+    assert.ok(calls.includes("checkout main"));
+    assert.ok(!calls.some((call) => call.startsWith("reset")));
+  });
+
+  suite("in a real repository", () => {
+    const client = new GitClient(silentOutput);
+    let repo: ReturnType<typeof createTestRepo>;
+    setup(() => {
+      repo = createTestRepo();
+      repo.write("a.txt", "one\nstaged\n");
+      repo.git("add", "a.txt");
+      repo.write("a.txt", "one\nstaged\nunstaged\n");
+      repo.write("notes.md", "draft\n");
+    });
+    teardown(() => fs.rmSync(repo.dir, { recursive: true, force: true }));
+
+    test("undoing an operation that left the changes in place keeps them", async () => {
+      const recorded = await captureSnapshot(client, { name: "repo", path: repo.dir });
+      repo.git("tag", "v1");
+      const result = await restoreSnapshot(client, recorded);
+      assert.strictEqual(result.success, true, result.error);
+      assert.strictEqual(result.message, "Already at the recorded state");
+      assert.strictEqual(repo.git("diff", "--cached", "--name-only").trim(), "a.txt");
+      assert.strictEqual(fs.readFileSync(path.join(repo.dir, "a.txt"), "utf-8"), "one\nstaged\nunstaged\n");
+    });
+
+    test("untracked files are copied only when asked for", async () => {
+      assert.strictEqual((await captureSnapshot(client, { name: "repo", path: repo.dir })).untracked, undefined);
+      const recorded = await captureSnapshot(client, { name: "repo", path: repo.dir }, { untracked: true });
+      assert.deepStrictEqual(recorded.untracked, ["notes.md"]);
+    });
+
+    test("undoing a discard brings back staged, unstaged and untracked work", async () => {
+      const recorded = await captureSnapshot(client, { name: "repo", path: repo.dir }, { untracked: true });
+      repo.git("reset", "-q", "--hard");
+      repo.git("clean", "-q", "-f");
+      const result = await restoreSnapshot(client, recorded);
+      assert.strictEqual(result.success, true, result.error);
+      assert.strictEqual(repo.git("show", ":a.txt"), "one\nstaged\n");
+      assert.strictEqual(fs.readFileSync(path.join(repo.dir, "a.txt"), "utf-8"), "one\nstaged\nunstaged\n");
+      assert.strictEqual(fs.readFileSync(path.join(repo.dir, "notes.md"), "utf-8"), "draft\n");
+    });
+  });
+
+  test("refuses snapshots without a recorded commit", async () => {
+    const result = await restoreSnapshot(scriptedClient({}, []), { name: "empty", path: "/tmp/empty" });
+    assert.strictEqual(result.success, false);
+  });
+
+  test("drops records without repositories", async () => {
+    const values = new Map<string, unknown>();
+    const memento = {
+      get: (key: string) => values.get(key),
+      update: async (key: string, value: unknown) => {
+        values.set(key, value);
+      },
+    } as any;
+    const history = new UndoHistory(memento);
+    await history.save({ operation: "Pull", createdAt: "2026-01-01T00:00:00.000Z", repos: [snapshot] });
+    assert.strictEqual(history.last?.operation, "Pull");
+    await history.save({ operation: "Fetch", createdAt: "2026-01-01T00:00:00.000Z", repos: [] });
+    assert.strictEqual(history.last, undefined);
+  });
+});
+
+suite("Safe Mode Backups", () => {
+  const repo = (name: string) => ({ name, path: `/tmp/${name}` });
+  const file = (filePath: string, index: string, workingDir: string) =>
+    ({ path: filePath, index, working_dir: workingDir }) as any;
+
+  test("backup ids are valid ref names that sort chronologically", () => {
+    const earlier = backupId(new Date("2026-03-04T05:06:07.890Z"));
+    assert.strictEqual(earlier, "20260304T050607890");
+    assert.ok(backupId(new Date("2026-03-04T05:06:07.891Z")) > earlier);
+    assert.ok(backupId(new Date("2026-11-01T00:00:00.000Z")) > earlier);
+  });
+
+  test("backup ids within the same millisecond differ", () => {
+    const date = new Date("2026-05-06T07:08:09.010Z");
+    const first = backupId(date);
+    const second = backupId(date);
+    assert.strictEqual(second, `${first}-1`);
+    assert.ok(second > first);
+  });
+
+  test("an existing backup is never replaced", async () => {
+    const repo = createTestRepo();
+    try {
+      const client = new GitClient({ append: () => {}, appendLine: () => {} });
+      repo.write("a.txt", "first\n");
+      const first = await createBackup(client, repo.dir, "20260101T000000000", "Discard Changes");
+      repo.write("a.txt", "second\n");
+      await assert.rejects(createBackup(client, repo.dir, "20260101T000000000", "Discard Changes"));
+      assert.strictEqual(repo.git("rev-parse", `${BACKUP_REF_PREFIX}20260101T000000000`).trim(), first);
+    } finally {
+      fs.rmSync(repo.dir, { recursive: true, force: true });
+    }
+  });
+
+  test("splits tracked changes from untracked files", () => {
+    const preview = discardPreview(repo("api"), {
+      files: [file("a.ts", "M", " "), file("b.ts", " ", "D"), file("notes.md", "?", "?")],
+    });
+    assert.deepStrictEqual(preview.changed, ["a.ts", "b.ts"]);
+    assert.deepStrictEqual(preview.untracked, ["notes.md"]);
+  });
+
+  test("lists dirty repositories with a few files each", () => {
+    const listing = formatDiscardPreview(
+      [
+        { repo: repo("api"), changed: ["a.ts", "b.ts", "c.ts"], untracked: ["d.ts"] },
+        { repo: repo("web"), changed: [], untracked: [] },
+        { repo: repo("ops"), changed: [], untracked: ["x"] },
+      ],
+      { maxFiles: 2 },
+    );
+    assert.strictEqual(listing, "api: 3 changed, 1 untracked (a.ts, b.ts, +2 more)\nops: 1 untracked (x)");
+  });
+
+  test("caps the number of repositories listed", () => {
+    const previews = ["a", "b", "c"].map((name) => ({ repo: repo(name), changed: ["f"], untracked: [] }));
+    const lines = formatDiscardPreview(previews, { maxRepos: 2 }).split("\n");
+    assert.strictEqual(lines.length, 3);
+    assert.strictEqual(lines[2], "…and 1 more repos");
+  });
+});
+
+suite("Dry Run", () => {
+  const state = (overrides: Partial<RepoState> = {}): RepoState => ({
+    branch: "main",
+    upstream: "origin/main",
+    ahead: 0,
+    behind: 0,
+    changed: 0,
+    untracked: 0,
+    ...overrides,
+  });
+
+  test("pull fast-forwards, rebases or refuses on a dirty tree", () => {
+    assert.deepStrictEqual(predictPull(state({ behind: 3 })), { verdict: "change", message: "would fast-forward 3 commits" });
+    assert.strictEqual(predictPull(state({ ahead: 1, behind: 2 })).message, "would rebase 1 local commit onto 2 upstream commits");
+    assert.strictEqual(predictPull(state()).verdict, "unchanged");
+    assert.strictEqual(predictPull(state({ behind: 1, changed: 2 })).verdict, "fail");
+    assert.strictEqual(predictPull(state({ behind: 1, changed: 2 }), true).verdict, "change");
+    assert.strictEqual(predictPull(state({ upstream: undefined })).verdict, "fail");
+  });
+
+  test("push is rejected when behind", () => {
+    assert.deepStrictEqual(predictPush(state({ ahead: 1, behind: 2 })), {
+      verdict: "fail",
+      message: "push would be rejected: behind by 2",
+    });
+    assert.strictEqual(predictPush(state({ ahead: 2 })).message, "would push 2 commits to origin/main");
+    assert.strictEqual(predictPush(state()).verdict, "unchanged");
+    assert.strictEqual(predictPush(state({ branch: undefined })).verdict, "fail");
+  });
+
+  test("checkout uses local branches, then a single remote branch", () => {
+    assert.strictEqual(predictCheckout(state(), "main", true, []).verdict, "unchanged");
+    assert.strictEqual(predictCheckout(state({ changed: 1 }), "dev", true, []).message, "would switch from main to dev, carrying 1 uncommitted change");
+    assert.strictEqual(predictCheckout(state(), "dev", false, ["origin/dev"]).message, "would create dev tracking origin/dev");
+    assert.strictEqual(predictCheckout(state(), "dev", false, ["origin/dev", "fork/dev"]).verdict, "fail");
+    assert.strictEqual(predictCheckout(state(), "dev", false, []).message, "branch dev not present");
+  });
+
+  test("branch deletion needs an existing branch that is not checked out", () => {
+    assert.strictEqual(predictDeleteBranch(state(), "old", false).message, "branch old not present");
+    assert.strictEqual(predictDeleteBranch(state(), "main", true).verdict, "fail");
+    assert.strictEqual(predictDeleteBranch(state(), "old", true).verdict, "change");
+  });
+
+  test("discard counts the files that would be lost", () => {
+    assert.strictEqual(predictDiscard(state({ changed: 10, untracked: 2 })).message, "12 files would be discarded (10 changed, 2 untracked)");
+    assert.strictEqual(predictDiscard(state()).verdict, "unchanged");
+  });
+
+  test("reset workspace pulls from a clean tree after discarding", () => {
+    const outcome = predictResetWorkspace(state({ changed: 1, behind: 2 }));
+    assert.strictEqual(outcome.verdict, "change");
+    assert.strictEqual(outcome.message, "1 file would be discarded (1 changed); then would fast-forward 2 commits");
+  });
+
+  test("reset workspace with auto-stash keeps uncommitted files", () => {
+    const outcome = predictResetWorkspace(state({ changed: 1, untracked: 1, behind: 2 }), true);
+    assert.strictEqual(outcome.message, "would fast-forward 2 commits; 2 uncommitted files stashed and re-applied");
+    assert.strictEqual(predictResetWorkspace(state(), true).verdict, "unchanged");
+  });
+});
+
+suite("Preflight Checks", () => {
+  const clean: RepoState = { branch: "main", upstream: "origin/main", ahead: 0, behind: 0, changed: 0, untracked: 0 };
+  const conditions = (findings: { condition: string }[]) => findings.map((finding) => finding.condition);
+
+  test("a clean, tracking branch passes", () => {
+    assert.deepStrictEqual(findPreflightIssues(clean, undefined, "pull"), []);
+    assert.deepStrictEqual(findPreflightIssues({ ...clean, ahead: 2 }, undefined, "push"), []);
+  });
+
+  test("flags detached HEAD, missing upstream and operations in progress", () => {
+    assert.deepStrictEqual(conditions(findPreflightIssues({ ...clean, branch: undefined }, undefined, "push")), ["detachedHead"]);
+    assert.deepStrictEqual(conditions(findPreflightIssues({ ...clean, upstream: undefined }, undefined, "pull")), ["noUpstream"]);
+    const findings = findPreflightIssues(clean, "rebase", "pull");
+    assert.deepStrictEqual(findings, [{ condition: "operationInProgress", detail: "rebase in progress" }]);
+  });
+
+  test("dirty trees only matter for a rebase pull; divergence differs per operation", () => {
+    const dirty = { ...clean, changed: 2 };
+    assert.deepStrictEqual(conditions(findPreflightIssues(dirty, undefined, "pull")), ["dirtyTree"]);
+    assert.deepStrictEqual(conditions(findPreflightIssues(dirty, undefined, "push")), []);
+    assert.deepStrictEqual(conditions(findPreflightIssues(dirty, undefined, "pull", "merge")), []);
+    assert.deepStrictEqual(conditions(findPreflightIssues(dirty, undefined, "pull", "ff-only")), []);
+    assert.deepStrictEqual(conditions(findPreflightIssues({ ...clean, behind: 1 }, undefined, "pull")), []);
+    assert.deepStrictEqual(conditions(findPreflightIssues({ ...clean, behind: 1 }, undefined, "push")), ["diverged"]);
+    assert.deepStrictEqual(conditions(findPreflightIssues({ ...clean, ahead: 1, behind: 1 }, undefined, "pull")), ["diverged"]);
+  });
+
+  test("the strictest policy wins", () => {
+    const policies = { ...DEFAULT_PREFLIGHT_POLICIES, dirtyTree: "autoStash" as const, diverged: "proceed" as const };
+    const dirty = { condition: "dirtyTree" as const, detail: "" };
+    const diverged = { condition: "diverged" as const, detail: "" };
+    const detached = { condition: "detachedHead" as const, detail: "" };
+    assert.strictEqual(resolvePolicy([], policies), "proceed");
+    assert.strictEqual(resolvePolicy([dirty, diverged], policies), "autoStash");
+    assert.strictEqual(resolvePolicy([dirty, detached], policies), "skip");
+    assert.strictEqual(resolvePolicy([dirty], { ...policies, dirtyTree: "abort" }), "abort");
+  });
+
+  test("autoStash only applies to dirty trees", () => {
+    const policies = { ...DEFAULT_PREFLIGHT_POLICIES, diverged: "autoStash" as const };
+    assert.strictEqual(resolvePolicy([{ condition: "diverged", detail: "" }], policies), "proceed");
+  });
+});
+
+suite("Auto-Stash", () => {
+  test("stash messages are tagged with the operation", () => {
+    const message = autoStashMessage("Pull", new Date("2026-01-02T03:04:05.000Z"));
+    assert.strictEqual(message, `${AUTO_STASH_TAG}: Pull (2026-01-02T03:04:05.000Z)`);
+  });
+
+  test("finds the stash entry of a commit", () => {
+    const list = "aaa111\nbbb222\nccc333\n";
+    assert.strictEqual(findStashRef(list, "bbb222"), "stash@{1}");
+    assert.strictEqual(findStashRef(list, "ddd444"), undefined);
+  });
+
+  suite("in a real repository", () => {
+    const client = new GitClient({ append: () => {}, appendLine: () => {} });
+    let repo: ReturnType<typeof createTestRepo>;
+    const stashes = () => repo.git("stash", "list").split("\n").filter(Boolean);
+    // Commits a change to `file` as if a pull had brought it in
+    const commitUpstream = (file: string, content: string) => async () => {
+      repo.write(file, content);
+      repo.git("add", file);
+      repo.git("commit", "-q", "-m", `upstream ${file}`);
+      return { success: true, message: "Pulled" };
+    };
+    setup(() => {
+      repo = createTestRepo();
+      repo.write("b.txt", "b\n");
+      repo.git("add", "b.txt");
+      repo.git("commit", "-q", "-m", "b");
+      repo.write("b.txt", "b\nstaged\n");
+      repo.git("add", "b.txt");
+      repo.write("a.txt", "one\nlocal\n");
+      repo.write("notes.md", "draft\n");
+    });
+    teardown(() => fs.rmSync(repo.dir, { recursive: true, force: true }));
+
+    test("re-applies staged, unstaged and untracked work and drops the stash", async () => {
+      const result = await withAutoStash(client, repo.dir, "Pull", commitUpstream("c.txt", "c\n"));
+      assert.strictEqual(result.success, true, result.error);
+      assert.strictEqual(result.message, "Pulled (uncommitted changes re-applied)");
+      assert.strictEqual(repo.git("diff", "--cached", "--name-only").trim(), "b.txt");
+      assert.strictEqual(repo.git("diff", "--name-only").trim(), "a.txt");
+      assert.ok(fs.existsSync(path.join(repo.dir, "notes.md")));
+      assert.deepStrictEqual(stashes(), []);
+    });
+
+    test("names conflicted files and keeps the stash when re-applying conflicts", async () => {
+      const result = await withAutoStash(client, repo.dir, "Pull", commitUpstream("a.txt", "one\nupstream\n"));
+      assert.strictEqual(result.success, false);
+      assert.ok(result.error?.includes("Conflicts in a.txt"), result.error);
+      assert.ok(result.error?.includes("drop stash@{0}"), result.error);
+      assert.strictEqual(stashes().length, 1);
+    });
+
+    test("keeps the stash while the operation left a rebase in progress", async () => {
+      const result = await withAutoStash(client, repo.dir, "Pull", async () => {
+        // An upstream that adds b.txt differently, so rebasing main onto it stops
+        repo.git("checkout", "-q", "-b", "upstream", "HEAD~1");
+        await commitUpstream("b.txt", "b\nupstream\n")();
+        repo.git("checkout", "-q", "main");
+        try {
+          repo.git("rebase", "upstream");
+          return { success: true, message: "Pulled" };
+        } catch {
+          return { success: false, message: "Pull failed", error: "rebase stopped on a conflict" };
+        }
+      });
+      assert.strictEqual(result.success, false);
+      assert.ok(result.error?.includes("Finish or abort the rebase"), result.error);
+      assert.ok(result.error?.includes("git stash pop stash@{0}"), result.error);
+      assert.strictEqual(stashes().length, 1);
+      repo.git("rebase", "--abort");
+    });
+
+    test("leaves an older stash alone when only a submodule has changes", async () => {
+      const upstream = createTestRepo();
+      try {
+        repo.git("reset", "-q", "--hard");
+        fs.rmSync(path.join(repo.dir, "notes.md"));
+        repo.git("-c", "protocol.file.allow=always", "submodule", "add", "-q", upstream.dir, "sub");
+        repo.git("commit", "-q", "-m", "sub");
+        repo.write("a.txt", "one\nmine\n");
+        repo.git("stash", "push", "-q", "-m", "user work");
+        fs.writeFileSync(path.join(repo.dir, "sub", "a.txt"), "one\nsub\n");
+
+        const result = await withAutoStash(client, repo.dir, "Pull", async () => ({ success: true, message: "Pulled" }));
+        assert.deepStrictEqual(result, { success: true, message: "Pulled" });
+        assert.strictEqual(stashes().length, 1);
+        assert.ok(stashes()[0].includes("user work"), stashes()[0]);
+        assert.strictEqual(repo.git("diff", "--name-only").trim(), "sub");
+      } finally {
+        fs.rmSync(upstream.dir, { recursive: true, force: true });
+      }
+    });
+
+    test("reports git failures as an unsuccessful result", async () => {
+      let ran = false;
+      const result = await withAutoStash(client, path.join(repo.dir, "missing"), "Pull", async () => {
+        ran = true;
+        return { success: true, message: "Pulled" };
+      });
+      assert.strictEqual(result.success, false);
+      assert.strictEqual(result.message, "Pull not run: auto-stash failed");
+      assert.strictEqual(ran, false);
+    });
+  });
+});
+
+suite("Pull Strategy", () => {
+  const silentOutput = { append: () => {}, appendLine: () => {} };
+  const state = (overrides: Partial<RepoState> = {}): RepoState => ({
+    branch: "main",
+    upstream: "origin/main",
+    ahead: 0,
+    behind: 0,
+    changed: 0,
+    untracked: 0,
+    ...overrides,
+  });
+
+  test("the first group with a strategy wins over the default", () => {
+    const byGroup = { release: "ff-only", tools: "merge" } as const;
+    assert.strictEqual(resolvePullStrategy(["backend", "release", "tools"], byGroup, "rebase"), "ff-only");
+    assert.strictEqual(resolvePullStrategy(["tools"], byGroup, "rebase"), "merge");
+    assert.strictEqual(resolvePullStrategy(["backend"], byGroup, "rebase"), "rebase");
+  });
+
+  test("pull passes the strategy's flag to git", async () => {
+    const flags: string[] = [];
+    const client = new GitClient(silentOutput, {
+      backend: () => ({ pull: async (_remote: unknown, _branch: unknown, options: object) => flags.push(...Object.keys(options)) }) as any,
+    });
+    await client.pull("/tmp/repo");
+    await client.pull("/tmp/repo", "merge");
+    await client.pull("/tmp/repo", "ff-only");
+    assert.deepStrictEqual(flags, ["--rebase", "--no-rebase", "--ff-only"]);
+  });
+
+  test("a fast-forward-only pull that cannot fast-forward is reported as diverged", async () => {
+    const client = new GitClient(silentOutput, {
+      backend: () => ({ pull: async () => { throw new Error("fatal: Not possible to fast-forward, aborting."); } }) as any,
+    });
+    const result = await client.pull("/tmp/repo", "ff-only");
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.message, "Pull failed: diverged");
+    assert.ok(result.error?.startsWith("diverged"));
+    assert.strictEqual((await client.pull("/tmp/repo", "merge")).message, "Pull failed");
+  });
+
+  test("dry run predicts the strategy's outcome", () => {
+    const diverged = state({ ahead: 1, behind: 2 });
+    assert.strictEqual(predictPull(diverged, false, "merge").message, "would merge 2 upstream commits into main");
+    assert.deepStrictEqual(predictPull(diverged, false, "ff-only"), { verdict: "fail", message: "diverged ↑1 ↓2 — cannot fast-forward" });
+    assert.strictEqual(predictPull(state({ behind: 2 }), false, "ff-only").verdict, "change");
+    assert.strictEqual(predictPull(state({ behind: 1, changed: 2 }), false, "merge").verdict, "change");
+  });
+});
+
+suite("Commit Panel", () => {
+  const files = commitFiles({
+    files: [
+      { path: "a.ts", index: " ", working_dir: "M" },
+      { path: "b.ts", index: "M", working_dir: "M" },
+      { path: "new.ts", from: "old.ts", index: "R", working_dir: " " },
+      { path: "notes.md", index: "?", working_dir: "?" },
+    ] as any,
+  });
+  const request = (overrides: Partial<CommitRequest> = {}): CommitRequest => ({
+    message: "Shared message",
+    options: {},
+    repos: [{ path: "/ws/api", files: ["a.ts"] }],
+    ...overrides,
+  });
+  const changes: RepoCommitChanges[] = [
+    { repo: { name: "api", path: "/ws/api" }, branch: "feature/ABC-123-login", ticket: "ABC-123", rules: DEFAULT_COMMIT_RULES, files },
+  ];
+
+  test("keeps the original path of renames", () => {
+    assert.strictEqual(files[2].from, "old.ts");
+    assert.strictEqual(files[0].from, undefined);
+  });
+
+  test("staged files are selected, or every file when nothing is staged", () => {
+    assert.deepStrictEqual(defaultSelection(files), ["b.ts", "new.ts"]);
+    assert.deepStrictEqual(defaultSelection([files[0], files[3]]), ["a.ts", "notes.md"]);
+  });
+
+  test("a repository's own message wins over the shared one", () => {
+    const withOverride = request({ repos: [{ path: "/ws/api", files: ["a.ts"], message: "  api: fix  " }] });
+    assert.strictEqual(commitMessageFor(withOverride, "/ws/api"), "api: fix");
+    assert.strictEqual(commitMessageFor(request({ repos: [{ path: "/ws/api", files: [], message: " " }] }), "/ws/api"), "Shared message");
+  });
+
+  test("requests need files or amend, and a message per repository", () => {
+    assert.strictEqual(validateCommitRequest(request(), changes, DEFAULT_COMMIT_TYPES), undefined);
+    assert.strictEqual(validateCommitRequest(request({ repos: [] }), changes, DEFAULT_COMMIT_TYPES), "Select at least one repository");
+    assert.ok(validateCommitRequest(request({ repos: [{ path: "/ws/api", files: [] }] }), changes, DEFAULT_COMMIT_TYPES)?.startsWith("api: select"));
+    assert.strictEqual(
+      validateCommitRequest(request({ options: { amend: true }, repos: [{ path: "/ws/api", files: [] }] }), changes, DEFAULT_COMMIT_TYPES),
+      undefined,
+    );
+    assert.strictEqual(validateCommitRequest(request({ message: "" }), changes, DEFAULT_COMMIT_TYPES), "api: Commit message cannot be empty");
+  });
+
+  test("ticket prefixes apply per repository and count for its rules", () => {
+    const strict = [{ ...changes[0], rules: { ...DEFAULT_COMMIT_RULES, requireType: true } }];
+    const typed = request({ message: "feat: login", ticketPrefix: true });
+    assert.strictEqual(commitMessageFor(typed, "/ws/api", "ABC-123"), "ABC-123: feat: login");
+    assert.strictEqual(validateCommitRequest(typed, strict, DEFAULT_COMMIT_TYPES), undefined);
+    assert.ok(validateCommitRequest(request({ ticketPrefix: true }), strict, DEFAULT_COMMIT_TYPES)?.startsWith("api: Subject must start"));
+  });
+});
+
+suite("Commit Messages", () => {
+  const ticketPattern = new RegExp(DEFAULT_TICKET_PATTERN);
+
+  test("extracts the ticket ID from the branch name", () => {
+    assert.strictEqual(extractTicket("feature/ABC-123-login", ticketPattern), "ABC-123");
+    assert.strictEqual(extractTicket("main", ticketPattern), undefined);
+    assert.strictEqual(extractTicket("feature/ABC-123", undefined), undefined);
+  });
+
+  test("prefixes the ticket unless the subject mentions it", () => {
+    assert.strictEqual(applyTicket("Fix login\n\nBody", "ABC-123"), "ABC-123: Fix login\n\nBody");
+    assert.strictEqual(applyTicket("Fix login (ABC-123)", "ABC-123"), "Fix login (ABC-123)");
+    assert.strictEqual(applyTicket("Fix login", undefined), "Fix login");
+  });
+
+  test("builds conventional commit prefixes", () => {
+    assert.strictEqual(conventionalPrefix("feat"), "feat: ");
+    assert.strictEqual(conventionalPrefix("fix", " api "), "fix(api): ");
+  });
+
+  test("the first group with rules overrides the fields it sets", () => {
+    const groupRules = { backend: { requireType: true }, docs: { maxSubjectLength: 50 } };
+    assert.deepStrictEqual(resolveCommitRules(["docs", "backend"], groupRules, DEFAULT_COMMIT_RULES), {
+      ...DEFAULT_COMMIT_RULES,
+      maxSubjectLength: 50,
+    });
+    assert.strictEqual(resolveCommitRules(["web"], groupRules, DEFAULT_COMMIT_RULES), DEFAULT_COMMIT_RULES);
+  });
+
+  test("checks subject length, the blank second line and the commit type", () => {
+    const rules = { maxSubjectLength: 20, blankSecondLine: true, requireType: true };
+    assert.strictEqual(validateCommitRules("feat(ui): add button", rules, DEFAULT_COMMIT_TYPES).valid, true);
+    assert.strictEqual(validateCommitRules("feat(ui): add a big button", rules, DEFAULT_COMMIT_TYPES).error, "Subject is 26 characters (max 20)");
+    assert.strictEqual(validateCommitRules("fix: typo\nbody", rules, DEFAULT_COMMIT_TYPES).valid, false);
+    assert.strictEqual(validateCommitRules("fix: typo\n\nbody", rules, DEFAULT_COMMIT_TYPES).valid, true);
+    assert.strictEqual(validateCommitRules("Add button", rules, DEFAULT_COMMIT_TYPES).valid, false);
+    assert.strictEqual(validateCommitRules("wip: button", rules, DEFAULT_COMMIT_TYPES).valid, false);
+    assert.strictEqual(validateCommitRules("ABC-1: fix!: drop", rules, DEFAULT_COMMIT_TYPES, "ABC-1").valid, true);
+    assert.strictEqual(validateCommitRules("Anything goes here at all", DEFAULT_COMMIT_RULES, DEFAULT_COMMIT_TYPES).valid, true);
+  });
+});
+
+suite("Push Options", () => {
+  const choice = (overrides: Partial<PushChoice> = {}): PushChoice => ({
+    setUpstream: true,
+    forceWithLease: false,
+    tags: false,
+    ...overrides,
+  });
+  const target = (overrides: Partial<PushTarget> = {}): PushTarget => ({
+    branch: "feature",
+    remote: "origin",
+    remoteBranch: "origin/feature",
+    tracking: false,
+    exists: false,
+    ahead: 2,
+    behind: 0,
+    ...overrides,
+  });
+
+  test("pushes to the chosen remote, the upstream's, the default or the only one", () => {
+    assert.strictEqual(chooseRemote(["origin", "fork"], "origin", "origin", "fork"), "fork");
+    assert.strictEqual(chooseRemote(["origin"], "origin", "origin", "fork"), undefined);
+    assert.strictEqual(chooseRemote(["origin", "fork"], "fork", "origin"), "fork");
+    assert.strictEqual(chooseRemote(["origin", "fork"], undefined, "origin"), "origin");
+    assert.strictEqual(chooseRemote(["upstream"], undefined, "origin"), "upstream");
+    assert.strictEqual(chooseRemote(["a", "b"], undefined, "origin"), undefined);
+  });
+
+  test("new branches are pushed with an upstream, or fail without one", () => {
+    assert.strictEqual(predictPushTo(target(), choice()).message, "would push 2 commits to origin/feature (new branch, sets upstream)");
+    assert.strictEqual(predictPushTo(target({ ahead: 0 }), choice()).verdict, "change");
+    assert.strictEqual(predictPushTo(target(), choice({ setUpstream: false })).verdict, "fail");
+    assert.deepStrictEqual(pushOptionsFor(target(), choice()), {
+      forceWithLease: false,
+      tags: false,
+      remote: "origin",
+      branch: "feature",
+      setUpstream: true,
+    });
+  });
+
+  test("force with lease is the only way past a rejection", () => {
+    const behind = target({ tracking: true, exists: true, ahead: 1, behind: 3 });
+    assert.strictEqual(predictPushTo(behind, choice()).verdict, "fail");
+    assert.strictEqual(
+      predictPushTo(behind, choice({ forceWithLease: true })).message,
+      "would force-push 1 commit to origin/feature, replacing 3 remote commits",
+    );
+  });
+
+  test("tracking branches push bare unless tags are pushed too", () => {
+    const tracking = target({ tracking: true, exists: true, remoteBranch: "origin/main" });
+    assert.deepStrictEqual(pushOptionsFor(tracking, choice()), { forceWithLease: false, tags: false });
+    assert.strictEqual(pushOptionsFor(tracking, choice({ tags: true })).branch, "feature:main");
+    assert.strictEqual(predictPushTo({ ...tracking, ahead: 0 }, choice()).verdict, "unchanged");
+  });
+
+  test("the summary lists pushes and failures and counts the rest", () => {
+    const summary = formatPushSummary([
+      { name: "api", outcome: { verdict: "change", message: "would push 2 commits to origin/main" } },
+      { name: "web", outcome: { verdict: "unchanged", message: "nothing to push" } },
+      { name: "ops", outcome: { verdict: "fail", message: "detached HEAD — nothing to push" } },
+    ]);
+    assert.strictEqual(
+      summary,
+      "api: would push 2 commits to origin/main\n⚠️ ops: detached HEAD — nothing to push\n1 repo(s) with nothing to push",
+    );
+  });
+});
+
+suite("Change Review", () => {
+  const entry = (path: string, index: string, working_dir: string, from?: string) => ({ path, index, working_dir, from });
+
+  test("a partially staged file appears in both sections", () => {
+    assert.deepStrictEqual(reviewFiles({ files: [entry("a.ts", "M", "M"), entry("b.ts", "R", " ", "old.ts")] } as any), [
+      { path: "a.ts", from: undefined, section: "staged", status: "M" },
+      { path: "a.ts", section: "unstaged", status: "M" },
+      { path: "b.ts", from: "old.ts", section: "staged", status: "R" },
+    ]);
+  });
+
+  test("untracked and conflicted files are listed once as unstaged", () => {
+    assert.deepStrictEqual(reviewFiles({ files: [entry("new.ts", "?", "?"), entry("c.ts", "U", "U"), entry("d.ts", "A", "A")] } as any), [
+      { path: "new.ts", section: "unstaged", status: "?" },
+      { path: "c.ts", section: "unstaged", status: "U" },
+      { path: "d.ts", section: "unstaged", status: "U" },
+    ]);
+  });
+
+  test("splits a diff into hunks and rebuilds a one-hunk patch", () => {
+    const text = [
+      "diff --git a/f.txt b/f.txt",
+      "index 1111111..2222222 100644",
+      "--- a/f.txt",
+      "+++ b/f.txt",
+      "@@ -1,2 +1,2 @@",
+      "-one",
+      "+ONE",
+      " two",
+      "@@ -10 +10,2 @@ section",
+      " ten",
+      "+eleven",
+      "",
+    ].join("\n");
+    const diff = parseFileDiff(text)!;
+    assert.strictEqual(diff.header.length, 4);
+    assert.deepStrictEqual(diff.hunks.map((h) => [h.oldStart, h.newStart, h.lines.length]), [[1, 1, 3], [10, 10, 2]]);
+    assert.strictEqual(describeHunk(diff.hunks[0]), "- one");
+    assert.strictEqual(describeHunk(diff.hunks[1]), "+ eleven");
+    assert.strictEqual(
+      hunkPatch(diff, diff.hunks[1]),
+      "diff --git a/f.txt b/f.txt\nindex 1111111..2222222 100644\n--- a/f.txt\n+++ b/f.txt\n@@ -10 +10,2 @@ section\n ten\n+eleven\n",
+    );
+  });
+
+  test("binary or empty diffs have no hunks", () => {
+    assert.strictEqual(parseFileDiff(""), undefined);
+    assert.strictEqual(parseFileDiff("diff --git a/i.png b/i.png\nBinary files a/i.png and b/i.png differ\n"), undefined);
+  });
+});
+
+suite("Compare Branches", () => {
+  const row = (overrides: Partial<RefComparison> = {}): RefComparison => ({
+    name: "repo",
+    path: "/repo",
+    missing: [],
+    ahead: 0,
+    behind: 0,
+    aheadCommits: [],
+    behindCommits: [],
+    files: [],
+    ...overrides,
+  });
+
+  test("parses one commit per line, keeping tabs in the subject", () => {
+    assert.deepStrictEqual(parseCommitLog("abc1234\tAda\t2026-10-01\tFix login\n\ndef5678\tBob\t2026-10-02\ta\tb\n"), [
+      { hash: "abc1234", author: "Ada", date: "2026-10-01", subject: "Fix login" },
+      { hash: "def5678", author: "Bob", date: "2026-10-02", subject: "a\tb" },
+    ]);
+  });
+
+  test("parses name-status output with renames", () => {
+    assert.deepStrictEqual(parseNameStatus("M\tsrc/a.ts\nR087\told.ts\tnew.ts\nA\tdocs/b.md\n"), [
+      { status: "M", path: "src/a.ts" },
+      { status: "R", path: "new.ts", from: "old.ts" },
+      { status: "A", path: "docs/b.md" },
+    ]);
+  });
+
+  test("summarizes differing, identical and skipped repositories", () => {
+    assert.strictEqual(
+      summarizeComparisons([row({ ahead: 2 }), row({ files: [{ status: "M", path: "a" }] }), row(), row({ missing: ["release/2.3"] })]),
+      "2 differ · 1 identical · 1 skipped (missing a ref or failed)",
+    );
+    assert.strictEqual(summarizeComparisons([row()]), "0 differ · 1 identical");
+  });
+});
+
 suite("WebView Integration", () => {
   test("WebView provider should be registered", async () => {
     const commands = await vscode.commands.getCommands(true);
@@ -0,0 +1,233 @@
+import * as vscode from "vscode";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import { GitClient, GitOperationResult } from "./gitClient";
+
+/** Ref that keeps the stash commit of uncommitted work from being garbage collected. */
+export const UNDO_STASH_REF = "refs/multirepo/undo";
+
+/** Ref pinning the commit that holds copies of untracked files. */
+export const UNDO_UNTRACKED_REF = "refs/multirepo/undo-untracked";
+
+const UNDO_RECORD_KEY = "multiRepoGit.lastUndo";
+
+/** State of one repository right before a bulk operation touched it. */
+export interface RepoSnapshot {
+  name: string;
+  path: string;
+  head?: string;
+  /** Checked-out branch; `undefined` when HEAD was detached. */
+  branch?: string;
+  /** `git stash create` commit holding staged and unstaged changes, if any. */
+  stash?: string;
+  /** Untracked files (relative paths) before the operation, when it could delete them. */
+  untracked?: string[];
+  /** Commit whose tree holds the content of `untracked`. */
+  untrackedCommit?: string;
+  /** Tips of branches the operation deletes, by name. */
+  branches?: Record<string, string>;
+}
+
+export interface UndoRecord {
+  operation: string;
+  /** ISO timestamp. */
+  createdAt: string;
+  repos: RepoSnapshot[];
+}
+
+export interface SnapshotOptions {
+  /** Branches the operation is about to delete. */
+  deletedBranches?: string[];
+  /** Copy untracked files too; only for operations that can delete them (discard, reset, custom commands). */
+  untracked?: boolean;
+}
+
+/**
+ * Records HEAD, the current branch, uncommitted work (as an unreferenced
+ * stash commit pinned by `UNDO_STASH_REF`), untracked files if asked to
+ * (committed through a temporary index and pinned by `UNDO_UNTRACKED_REF`)
+ * and the tips of branches about to be deleted. Leaves the working tree and index untouched.
+ */
+export async function captureSnapshot(
+  client: GitClient,
+  repo: { name: string; path: string },
+  options: SnapshotOptions = {},
+): Promise<RepoSnapshot> {
+  const snapshot: RepoSnapshot = { name: repo.name, path: repo.path };
+  snapshot.head = await client.head(repo.path);
+  if (!snapshot.head) {
+    return snapshot;
+  }
+
+  const git = (args: string[]) =>
+    client.run(repo.path, "undo", (g) => g.raw(args), { record: false }).then((out) => out.trim());
+
+  const branch = await git(["symbolic-ref", "--quiet", "--short", "HEAD"]).catch(() => "");
+  snapshot.branch = branch || undefined;
+
+  const stash = await git(["stash", "create", "multi-repo-git undo"]);
+  if (stash) {
+    await git(["update-ref", UNDO_STASH_REF, stash]);
+    snapshot.stash = stash;
+  }
+
+  const untracked = options.untracked
+    ? (await git(["ls-files", "--others", "--exclude-standard", "-z"])).split("\0").filter(Boolean)
+    : [];
+  if (untracked.length > 0) {
+    snapshot.untracked = untracked;
+    snapshot.untrackedCommit = await commitUntracked(client, repo.path, untracked);
+    await git(["update-ref", UNDO_UNTRACKED_REF, snapshot.untrackedCommit]);
+  }
+
+  for (const name of options.deletedBranches ?? []) {
+    const sha = await git(["rev-parse", "--verify", "--quiet", `refs/heads/${name}`]).catch(() => "");
+    if (sha) {
+      (snapshot.branches ??= {})[name] = sha;
+    }
+  }
+  return snapshot;
+}
+
+/** Author of the commits the extension creates to keep state, which never land on a branch. */
+export const BOOKKEEPING_IDENTITY = {
+  GIT_AUTHOR_NAME: "Multi Repo Git",
+  GIT_AUTHOR_EMAIL: "multi-repo-git@localhost",
+  GIT_COMMITTER_NAME: "Multi Repo Git",
+  GIT_COMMITTER_EMAIL: "multi-repo-git@localhost",
+};
+
+let temporaryFiles = 0;
+
+function temporaryFile(kind: string): string {
+  return path.join(os.tmpdir(), `multi-repo-git-${kind}-${process.pid}-${++temporaryFiles}`);
+}
+
+/**
+ * Runs `git <args> --pathspec-from-file=<list>` with `files` in a temporary
+ * NUL-separated list, which no argument-length limit applies to.
+ */
+async function withPathspecFile<T>(files: string[], run: (args: string[]) => Promise<T>): Promise<T> {
+  const list = temporaryFile("pathspec");
+  try {
+    await fs.writeFile(list, files.join("\0"));
+    return await run([`--pathspec-from-file=${list}`, "--pathspec-file-nul"]);
+  } finally {
+    await fs.rm(list, { force: true });
+  }
+}
+
+/**
+ * Commits `files` through a throwaway index so the real index is left alone.
+ * The commit is bookkeeping only, so it does not depend on the user's identity.
+ */
+export async function commitUntracked(client: GitClient, repoPath: string, files: string[]): Promise<string> {
+  const index = temporaryFile("index");
+  const git = (args: string[]) =>
+    client.run(repoPath, "undo", (g) => g.env({ ...process.env, ...BOOKKEEPING_IDENTITY, GIT_INDEX_FILE: index }).raw(args), { record: false });
+  try {
+    await withPathspecFile(files, (pathspec) => git(["add", ...pathspec]));
+    const tree = (await git(["write-tree"])).trim();
+    return (await git(["commit-tree", tree, "-m", "multi-repo-git: untracked files"])).trim();
+  } finally {
+    await fs.rm(index, { force: true });
+  }
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Rolls a repository back to `snapshot`: recreates deleted branches, returns
+ * to the recorded branch and commit (keeping local changes, refusing when
+ * they would be overwritten), re-applies the recorded uncommitted work and
+ * brings back untracked files that are gone.
+ */
+export async function restoreSnapshot(client: GitClient, snapshot: RepoSnapshot): Promise<GitOperationResult> {
+  if (!snapshot.head) {
+    return { success: false, message: "Nothing to restore", error: "No commit was recorded for this repository" };
+  }
+  const git = (args: string[]) => client.run(snapshot.path, "undo", (g) => g.raw(args));
+
+  try {
+    const restored: string[] = [];
+    for (const [name, sha] of Object.entries(snapshot.branches ?? {})) {
+      // `rev-parse --quiet` fails without output, which the git backend does not treat as an error
+      const current = (await git(["rev-parse", "--verify", "--quiet", `refs/heads/${name}`]).catch(() => "")).trim();
+      if (!current) {
+        await git(["branch", name, sha]);
+        restored.push(`branch ${name}`);
+      }
+    }
+
+    const currentBranch = (await git(["symbolic-ref", "--quiet", "--short", "HEAD"]).catch(() => "")).trim();
+    if (snapshot.branch && currentBranch !== snapshot.branch) {
+      await git(["checkout", snapshot.branch]);
+      restored.push(`checked out ${snapshot.branch}`);
+    } else if (!snapshot.branch && currentBranch) {
+      await git(["checkout", "--detach", snapshot.head]);
+      restored.push("detached HEAD");
+    }
+
+    const head = (await git(["rev-parse", "HEAD"])).trim();
+    if (head !== snapshot.head) {
+      await git(["reset", "--keep", snapshot.head]);
+      restored.push(`HEAD ${snapshot.head.slice(0, 8)}`);
+    }
+
+    // The stash commit's tree is the recorded working tree and its second
+    // parent the recorded index; when both still match, the recorded work is
+    // in place and applying it again would only fail on it
+    if (snapshot.stash) {
+      const [unstaged, staged] = await Promise.all([
+        git(["diff", "--no-ext-diff", "--name-only", snapshot.stash, "--"]),
+        git(["diff", "--no-ext-diff", "--cached", "--name-only", `${snapshot.stash}^2`, "--"]),
+      ]);
+      if (unstaged.trim() || staged.trim()) {
+        await git(["stash", "apply", "--index", snapshot.stash]);
+        restored.push("uncommitted changes");
+      }
+    }
+
+    if (snapshot.untrackedCommit && snapshot.untracked) {
+      const gone: string[] = [];
+      for (const file of snapshot.untracked) {
+        if (!(await exists(path.join(snapshot.path, file)))) {
+          gone.push(file);
+        }
+      }
+      if (gone.length > 0) {
+        const source = snapshot.untrackedCommit;
+        await withPathspecFile(gone, (pathspec) => git(["restore", `--source=${source}`, "--worktree", ...pathspec]));
+        restored.push(`${gone.length} untracked ${gone.length === 1 ? "file" : "files"}`);
+      }
+    }
+
+    return {
+      success: true,
+      message: restored.length > 0 ? `Restored ${restored.join(", ")}` : "Already at the recorded state",
+    };
+  } catch (e: any) {
+    return { success: false, message: "Undo failed", error: e.message || String(e) };
+  }
+}
+
+/** Keeps the undo record of the last bulk operation in workspace state. */
+export class UndoHistory {
+  constructor(private readonly state: vscode.Memento) {}
+
+  get last(): UndoRecord | undefined {
+    return this.state.get<UndoRecord>(UNDO_RECORD_KEY);
+  }
+
+  async save(record: UndoRecord | undefined): Promise<void> {
+    await this.state.update(UNDO_RECORD_KEY, record && record.repos.length > 0 ? record : undefined);
+  }
+}
@@ -42,6 +42,23 @@ export function validateTagName(name: string): ValidationResult {
   return { valid: true };
 }
 
+/** A branch, tag or commit to read from, including `~`/`^` suffixes such as `HEAD~3`. */
+export function validateRefName(ref: string): ValidationResult {
+  if (!ref || ref.length === 0) {
+    return { valid: false, error: "Ref cannot be empty" };
+  }
+  if (ref.length > 200) {
+    return { valid: false, error: "Ref too long (max 200 characters)" };
+  }
+  if (ref.startsWith('-')) {
+    return { valid: false, error: "Ref cannot start with -" };
+  }
+  if (!/^[a-zA-Z0-9._\-/~^]+$/.test(ref) || ref.includes("..")) {
+    return { valid: false, error: "Invalid characters in ref (only alphanumeric, dots, hyphens, slashes, ~ and ^ allowed)" };
+  }
+  return { valid: true };
+}
+
 export function validateRemoteName(name: string): ValidationResult {
   if (!name || name.length === 0) {
     return { valid: false, error: "Remote name cannot be empty" };